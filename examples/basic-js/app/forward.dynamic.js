@@ -1,6 +0,0 @@
-/**
- * @type {import("@cxnpl/next-app-middleware/runtime").DynamicForwarder}
- */
-export const locale = () => {
-  return "en";
-};
@@ -0,0 +1,7 @@
+/**
+ * @type {import("@cxnpl/next-app-middleware/runtime").LocaleForwarder}
+ */
+export const locale = {
+  locales: ["en", "de"],
+  defaultLocale: "en",
+};
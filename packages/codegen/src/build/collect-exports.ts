@@ -1,16 +1,15 @@
 import { parse } from "@swc/core";
 import fse from "fs-extra";
-import { join } from "path";
 
 const { readFile } = fse;
 
 /**
  * Collects all the named exports from a file using SWC AST to parse the file
- * @param path A filepath pointing to a ts or js file
+ * @param path An absolute filepath pointing to a ts or js file
  * @returns A string array of all the named exports in the file
  */
 const collectModuleExports = async (path: string) => {
-  const code = await readFile(join(process.cwd(), path), { encoding: "utf8" });
+  const code = await readFile(path, { encoding: "utf8" });
   const ast = await parse(code, {
     syntax: "typescript",
   });
@@ -39,3 +38,34 @@ const collectModuleExports = async (path: string) => {
 };
 
 export default collectModuleExports;
+
+/**
+ * Collects the names of all exported type aliases and interfaces of a file
+ * @param path An absolute filepath pointing to a ts or js file
+ * @returns A string array of all the exported types in the file
+ */
+export const collectTypeExports = async (path: string) => {
+  const code = await readFile(path, { encoding: "utf8" });
+  const ast = await parse(code, {
+    syntax: "typescript",
+  });
+  const exports = [];
+  for (const item of ast.body) {
+    if (item.type === "ExportDeclaration") {
+      const { declaration } = item;
+      if (
+        declaration.type === "TsTypeAliasDeclaration" ||
+        declaration.type === "TsInterfaceDeclaration"
+      )
+        exports.push(declaration.id.value);
+    } else if (item.type === "ExportNamedDeclaration" && item.typeOnly) {
+      for (const specifier of item.specifiers) {
+        if (specifier.type === "ExportSpecifier") {
+          if (specifier.exported) exports.push(specifier.exported.value);
+          else exports.push(specifier.orig.value);
+        }
+      }
+    }
+  }
+  return exports;
+};
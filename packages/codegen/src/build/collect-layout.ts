@@ -1,45 +1,136 @@
 import fse from "fs-extra";
-import { join } from "path";
+import { join, relative } from "path";
 import { Forwards, SegmentLayout } from "../types";
-import collectModuleExports from "./collect-exports";
+import { Diagnostics } from "../util/diagnostics";
+import collectModuleExports, { collectTypeExports } from "./collect-exports";
+import { getInternalRoute } from "./href";
+import { Project } from "./project";
 import {
   catchAllSegmentRegex,
   dynamicSegmentRegex,
-  findDynamicForward,
-  findExternal,
-  findMiddleware,
-  findPage,
-  findRedirect,
-  findRewrite,
-  findRoute,
-  findStaticForward,
+  FileConventions,
   isCatchAllSegment,
-  isRouteGroupSegment,
-  routeGroupSegmentRegex,
+  isInterceptingSegment,
+  isOptionalCatchAllSegment,
+  isPathlessSegment,
+  isSlotSegment,
+  optionalCatchAllSegmentRegex,
+  toHashSegment,
 } from "./regex";
 
 const { readdir, stat } = fse;
 
+/**
+ * @returns The named exports of the file matching `convention` in `dir`
+ * together with its location
+ */
+const collectForwardFile = async (
+  dir: string,
+  filesAndFolders: string[],
+  rootDir: string,
+  convention: FileConventions["dynamicForward"]
+) => {
+  const file = convention.find(filesAndFolders);
+  return {
+    location: file ? join(dir, file) : "",
+    names: file ? await collectModuleExports(join(rootDir, dir, file)) : [],
+  };
+};
+
 /**
  *
  * @param dir Current directory
  * @param filesAndFolders list of files within the current directory
+ * @param project The resolved project, `dir` is relative to its root
+ * @param diagnostics Collects params that are forwarded by multiple files
  * @returns An object that contains the dynamic and static forwards for the
  * current segment. Represented a string arrays of all the named exports in
- * either `forward.dynamic.{ts,js}` of `forward.static.{ts,js}`
+ * either `forward.dynamic.{ts,js}`, `forward.host.{ts,js}`,
+ * `forward.locale.{ts,js}`, `forward.experiment.{ts,js}` or
+ * `forward.static.{ts,js}`
+ */
+const collectForwards = async (
+  dir: string,
+  filesAndFolders: string[],
+  { rootDir, conventions }: Project,
+  diagnostics: Diagnostics
+): Promise<Forwards> => {
+  const [dynamic, host, locale, experiment, staticForwards] = await Promise.all(
+    [
+      conventions.dynamicForward,
+      conventions.hostForward,
+      conventions.localeForward,
+      conventions.experimentForward,
+      conventions.staticForward,
+    ].map((convention) =>
+      collectForwardFile(dir, filesAndFolders, rootDir, convention)
+    )
+  );
+  // the order of the files is the order their forwards are tried in
+  const dynamicFiles = [dynamic, host, locale, experiment];
+  const names = dynamicFiles.flatMap((file) => file.names);
+  new Set(names.filter((name, index) => names.indexOf(name) !== index)).forEach(
+    (name) =>
+      diagnostics.report(
+        "DUPLICATE_FORWARD",
+        `"${name}" is forwarded by multiple files.`,
+        dynamicFiles
+          .filter((file) => file.names.includes(name))
+          .map((file) => file.location)
+      )
+  );
+  return {
+    dynamic: Array.from(new Set(names)),
+    static: staticForwards.names,
+    host: host.names,
+    locale: locale.names,
+    experiment: experiment.names,
+  };
+};
+
+/**
+ * @returns The forwards of `parent` and `child` combined, used for the
+ * children of route groups that are forwarded by the group or its parents
+ */
+const mergeForwards = (parent: Forwards, child: Forwards): Forwards => ({
+  dynamic: [...parent.dynamic, ...child.dynamic],
+  static: [...parent.static, ...child.static],
+  host: [...parent.host, ...child.host],
+  locale: [...parent.locale, ...child.locale],
+  experiment: [...parent.experiment, ...child.experiment],
+});
+
+/**
+ * Reports all params of a route group that are already forwarded by one of its
+ * parents
+ * @returns The forwards of the route group without the reported params
  */
-const collectForwards = async (dir: string, filesAndFolders: string[]) => {
-  const dynamicForwardFile = findDynamicForward(filesAndFolders);
-  const dynamicForwardsPromise = dynamicForwardFile
-    ? collectModuleExports(join(dir, dynamicForwardFile))
-    : Promise.resolve([]);
-  const staticForwardFile = findStaticForward(filesAndFolders);
-  const staticForwardsPromise = staticForwardFile
-    ? collectModuleExports(join(dir, staticForwardFile))
-    : Promise.resolve([]);
+const withoutInheritedForwards = (
+  dir: string,
+  forward: Forwards,
+  parentForward: Forwards,
+  diagnostics: Diagnostics
+): Forwards => {
+  const inheritedDynamic = forward.dynamic.filter((name) =>
+    parentForward.dynamic.includes(name)
+  );
+  const inheritedStatic = forward.static.filter((name) =>
+    parentForward.static.includes(name)
+  );
+  [...inheritedDynamic, ...inheritedStatic].forEach((name) =>
+    diagnostics.report(
+      "DUPLICATE_FORWARD",
+      `"${name}" is already forwarded by a parent of the route group.`,
+      [dir]
+    )
+  );
+  const isOwn = (name: string) => !inheritedDynamic.includes(name);
   return {
-    dynamic: await dynamicForwardsPromise,
-    static: await staticForwardsPromise,
+    dynamic: forward.dynamic.filter(isOwn),
+    static: forward.static.filter((name) => !inheritedStatic.includes(name)),
+    host: forward.host.filter(isOwn),
+    locale: forward.locale.filter(isOwn),
+    experiment: forward.experiment.filter(isOwn),
   };
 };
 
@@ -52,20 +143,39 @@ const collectChildren = async (
   externalPath: string,
   filesAndFolders: string[],
   forward: Forwards,
-  getParent: () => SegmentLayout
+  getParent: () => SegmentLayout,
+  project: Project,
+  diagnostics: Diagnostics
 ) => {
   const children: Record<string, SegmentLayout> = {};
   await Promise.all(
     filesAndFolders.map(async (fileOrFolder) => {
-      const stats = await stat(join(dir, fileOrFolder));
+      const stats = await stat(join(project.rootDir, dir, fileOrFolder));
       if (stats.isDirectory()) {
-        if (isRouteGroupSegment(fileOrFolder)) {
-          // Do not include the route group segment in the external path
+        if (isInterceptingSegment(fileOrFolder)) {
+          // Intercepting routes are rendered for the url of the route they
+          // intercept, requests are handled by the chain of that route
+          return;
+        } else if (isPathlessSegment(fileOrFolder)) {
+          // Do not include route group and slot segments in the external path
           children[fileOrFolder] = await collectLayout(
             join(dir, fileOrFolder),
             externalPath,
             forward,
-            getParent
+            getParent,
+            project,
+            diagnostics
+          );
+        } else if (isOptionalCatchAllSegment(fileOrFolder)) {
+          const match = optionalCatchAllSegmentRegex.exec(fileOrFolder);
+          children[fileOrFolder] = await collectLayout(
+            join(dir, fileOrFolder),
+            // matches the bare path of the parent as well as any deeper path
+            join(externalPath, `*?${(match as RegExpExecArray)[1]}`),
+            forward,
+            getParent,
+            project,
+            diagnostics
           );
         } else if (isCatchAllSegment(fileOrFolder)) {
           const match = catchAllSegmentRegex.exec(fileOrFolder);
@@ -75,7 +185,9 @@ const collectChildren = async (
             // and will only return true if it matches
             join(externalPath, `*${(match as RegExpExecArray)[1]}`),
             forward,
-            getParent
+            getParent,
+            project,
+            diagnostics
           );
         } else {
           const match = dynamicSegmentRegex.exec(fileOrFolder);
@@ -85,14 +197,18 @@ const collectChildren = async (
                 join(dir, fileOrFolder),
                 externalPath,
                 forward,
-                getParent
+                getParent,
+                project,
+                diagnostics
               );
             } else {
               children[fileOrFolder] = await collectLayout(
                 join(dir, fileOrFolder),
                 join(externalPath, `:${match[1]}`),
                 forward,
-                getParent
+                getParent,
+                project,
+                diagnostics
               );
             }
           } else {
@@ -101,14 +217,18 @@ const collectChildren = async (
                 join(dir, fileOrFolder),
                 externalPath,
                 forward,
-                getParent
+                getParent,
+                project,
+                diagnostics
               );
             else
               children[fileOrFolder] = await collectLayout(
                 join(dir, fileOrFolder),
                 join(externalPath, fileOrFolder),
                 forward,
-                getParent
+                getParent,
+                project,
+                diagnostics
               );
           }
         }
@@ -118,66 +238,116 @@ const collectChildren = async (
   return children;
 };
 
+/**
+ * @returns true if any child segment matches `predicate`. Route group children
+ * are searched as well as they share the forwards of their parent.
+ */
+const hasChild = (
+  layout: SegmentLayout,
+  predicate: (child: SegmentLayout) => boolean
+): boolean =>
+  Object.values(layout.children).some(
+    (child) => predicate(child) || (child.group && hasChild(child, predicate))
+  );
+
+/**
+ * Reports all forwards of a segment that do not have a matching child segment
+ */
+const validateForwards = (layout: SegmentLayout, diagnostics: Diagnostics) => {
+  layout.forward.dynamic
+    .filter((name) => !hasChild(layout, (child) => child.dynamic === name))
+    .forEach((name) =>
+      diagnostics.report(
+        "UNUSED_FORWARD",
+        `dynamic forward "${name}" does not have a matching [${name}] segment.`,
+        [layout.location]
+      )
+    );
+  layout.forward.static
+    .filter((name) => !hasChild(layout, (child) => child.segment === name))
+    .forEach((name) =>
+      diagnostics.report(
+        "UNUSED_FORWARD",
+        `static forward "${name}" does not have a matching ${name} segment.`,
+        [layout.location]
+      )
+    );
+};
+
 /**
  * A recursive function that returns the full `SegmentLayout` of a given route
  * segment.
  * @param dir Current directory to collect layout from
  * @param externalPath How the segment can be reached from the browser
- * @param parentForward Dynamic and static forwards of the parent segment
+ * @param parentForward Dynamic and static forwards of the parent segment,
+ * including the ones of the route groups between them
  * @param getParent Backlink to the parent segment.
+ * @param project The resolved project, `dir` is relative to its root
+ * @param diagnostics Collects all problems found in the layout
  * @returns `SegmentLayout` of the current segment. Includes all children.
  */
 const collectLayout = async (
-  dir = "app",
-  externalPath = "/",
-  parentForward: Forwards = { dynamic: [], static: [] },
-  getParent?: () => SegmentLayout
+  dir: string,
+  externalPath: string,
+  parentForward: Forwards,
+  getParent: (() => SegmentLayout) | undefined,
+  project: Project,
+  diagnostics: Diagnostics
 ) => {
-  const filesAndFolders = await readdir(dir);
+  const filesAndFolders = await readdir(join(project.rootDir, dir));
   const [currentSegment] = dir.split("/").reverse();
   const dynamic = dynamicSegmentRegex.exec(currentSegment)?.[1];
-  const forward = isRouteGroupSegment(currentSegment)
-    ? parentForward
-    : await collectForwards(dir, filesAndFolders);
-  const catchAll = isCatchAllSegment(currentSegment);
-  const external = findExternal(filesAndFolders);
+  const group = isPathlessSegment(currentSegment);
+  const ownForward = await collectForwards(
+    dir,
+    filesAndFolders,
+    project,
+    diagnostics
+  );
+  // forwards of a route group only apply to its descendants, its children
+  // are forwarded by the group as well as the parents of the group
+  const forward = group
+    ? withoutInheritedForwards(dir, ownForward, parentForward, diagnostics)
+    : ownForward;
+  const childForward = group ? mergeForwards(parentForward, forward) : forward;
+  const catchAll =
+    isCatchAllSegment(currentSegment) ||
+    isOptionalCatchAllSegment(currentSegment);
+  const external = project.conventions.external.find(filesAndFolders);
   const hash =
     externalPath === "/"
       ? "/"
-      : externalPath
-          .split("/")
-          .map((segment) =>
-            segment.startsWith(":")
-              ? ":"
-              : segment.startsWith("*")
-              ? "*"
-              : segment
-          )
-          .join("/") +
+      : externalPath.split("/").map(toHashSegment).join("/") +
         (external ? "/\\" : "") +
         "/";
-  const layoutPage = findPage(filesAndFolders);
-  const route = findRoute(filesAndFolders);
+  const layoutPage = project.conventions.page.find(filesAndFolders);
+  const route = project.conventions.route.find(filesAndFolders);
   if (layoutPage && external)
-    throw new Error(
-      `Error while collecting routing config for "${dir}": page and external can not exist in the same segment.`
+    diagnostics.report(
+      "PAGE_WITH_EXTERNAL",
+      `page and external can not exist in the same segment.`,
+      [join(dir, layoutPage), join(dir, external)]
     );
-  const layoutMiddleware = findMiddleware(filesAndFolders);
+  const layoutMiddleware = project.conventions.middleware.find(filesAndFolders);
   const layout: SegmentLayout = {
     location: dir,
     internalPath:
-      dir === "app"
+      dir === project.appDir
         ? "/"
         : "/" +
-          dir
-            .replace(/^app\//, "")
+          relative(project.appDir, dir)
             .split("/")
             .map((segment) => {
-              if (routeGroupSegmentRegex.test(segment)) return false;
+              if (isPathlessSegment(segment)) return false;
               const match = dynamicSegmentRegex.exec(segment);
               if (!match) {
                 const catchAllMatch = catchAllSegmentRegex.exec(segment);
-                if (!catchAllMatch) return segment;
+                if (!catchAllMatch) {
+                  const optionalMatch =
+                    optionalCatchAllSegmentRegex.exec(segment);
+                  if (!optionalMatch) return segment;
+                  return `*?${optionalMatch[1]}`;
+                }
                 return `*${catchAllMatch[1]}`;
               } else return `:${match[1]}`;
             })
@@ -186,30 +356,69 @@ const collectLayout = async (
           "/",
     externalPath: externalPath === "/" ? "/" : externalPath + "/",
     segment: currentSegment,
-    group: isRouteGroupSegment(currentSegment),
+    group,
+    slot: isSlotSegment(currentSegment),
     staticForward: parentForward.static.includes(currentSegment),
     hash,
     dynamic,
     catchAll,
     forward,
-    rewrite: !!findRewrite(filesAndFolders),
-    redirect: !!findRedirect(filesAndFolders),
-    page: !!layoutPage,
+    rewrite: !!project.conventions.rewrite.find(filesAndFolders),
+    redirect: !!project.conventions.redirect.find(filesAndFolders),
+    page: !!layoutPage && !external,
     route: !!route,
+    skipMiddleware:
+      !!route &&
+      project.skipMiddleware.includes(getInternalRoute(project.appDir, dir)),
     external,
     middleware: !!layoutMiddleware,
+    locals:
+      !!layoutMiddleware &&
+      (
+        await collectTypeExports(join(project.rootDir, dir, layoutMiddleware))
+      ).includes("Locals"),
+    notFound: !!project.conventions.notFound.find(filesAndFolders),
+    notFoundMiddleware:
+      !!project.conventions.notFoundMiddleware.find(filesAndFolders),
+    errorMiddleware:
+      !!project.conventions.errorMiddleware.find(filesAndFolders),
+    afterMiddleware:
+      !!project.conventions.afterMiddleware.find(filesAndFolders),
     children: !external
       ? await collectChildren(
           dir,
           externalPath,
           filesAndFolders,
-          forward,
-          () => layout
+          childForward,
+          () => layout,
+          project,
+          diagnostics
         )
       : {},
     parent: getParent,
   };
+  // the page of a parallel route slot is rendered as part of this segment
+  Object.values(layout.children)
+    .filter((child) => child.slot && child.page)
+    .forEach((child) => {
+      child.page = false;
+      layout.page = true;
+    });
+  validateForwards(layout, diagnostics);
   return layout;
 };
 
-export default collectLayout;
+/**
+ * @returns The full `SegmentLayout` of the app directory
+ */
+const collectAppLayout = (project: Project, diagnostics: Diagnostics) =>
+  collectLayout(
+    project.appDir,
+    "/",
+    { dynamic: [], static: [], host: [], locale: [], experiment: [] },
+    undefined,
+    project,
+    diagnostics
+  );
+
+export default collectAppLayout;
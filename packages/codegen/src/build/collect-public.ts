@@ -2,15 +2,22 @@ import _glob from "glob";
 import { promisify } from "util";
 const glob = promisify(_glob);
 import fse from "fs-extra";
+import { join } from "path";
+import { Project } from "./project";
 const { stat } = fse;
 
 /**
  * @returns A string array of all the files in the public folder
  */
-const collectPublicFiles = async () => {
-  const publicFiles = (await glob("public/**/*")).map((path) => path.slice(6));
+const collectPublicFiles = async ({ rootDir, appDir, publicDir }: Project) => {
+  const publicFiles =
+    publicDir === false
+      ? []
+      : (await glob("**/*", { cwd: join(rootDir, publicDir) })).map(
+          (path) => `/${path}`
+        );
   try {
-    if ((await stat("app/favicon.ico")).isFile())
+    if ((await stat(join(rootDir, appDir, "favicon.ico"))).isFile())
       publicFiles.push("/favicon.ico");
   } catch {
     /* empty */
@@ -0,0 +1,153 @@
+import type { HttpMethod } from "@cxnpl/next-app-middleware-runtime";
+import _glob from "glob";
+import { join } from "path";
+import { promisify } from "util";
+import { Diagnostics } from "../util/diagnostics";
+import runScrpt from "../util/run-script";
+import type { MiddlewareConfig } from "./project";
+
+const glob = promisify(_glob);
+
+const httpMethods: HttpMethod[] = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "DELETE",
+  "PATCH",
+  "OPTIONS",
+];
+
+type OptionSchema = {
+  expected: string;
+  validate: (value: unknown) => boolean;
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every(isString);
+
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+const schema: Record<keyof MiddlewareConfig, OptionSchema> = {
+  appDir: { expected: "a string", validate: isString },
+  outFile: { expected: "a string", validate: isString },
+  pageExtensions: { expected: "an array of strings", validate: isStringArray },
+  ignoredPrefixes: { expected: "an array of strings", validate: isStringArray },
+  skipMiddleware: { expected: "an array of strings", validate: isStringArray },
+  hooksFile: { expected: "a string", validate: isString },
+  publicDir: {
+    expected: "a string or false",
+    validate: (value) => isString(value) || value === false,
+  },
+  methods: {
+    expected: `"*" or an array of ${httpMethods.join(", ")}`,
+    validate: (value) =>
+      value === "*" ||
+      (Array.isArray(value) &&
+        value.every((method) => httpMethods.includes(method))),
+  },
+  language: {
+    expected: `"typescript" or "javascript"`,
+    validate: (value) => value === "typescript" || value === "javascript",
+  },
+  format: { expected: "a boolean", validate: isBoolean },
+  notFound: {
+    expected: `a path starting with "/"`,
+    validate: (value) => isString(value) && value.startsWith("/"),
+  },
+  protectedHeaders: {
+    expected: "an array of strings",
+    validate: isStringArray,
+  },
+  strict: { expected: "a boolean", validate: isBoolean },
+};
+
+/**
+ * @returns The number of edits needed to turn `a` into `b`
+ */
+const getDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * @returns The supported option closest to `key` if it is likely a typo
+ */
+const getSuggestion = (key: string) => {
+  const [closest] = Object.keys(schema)
+    .map((option) => [option, getDistance(key, option)] as const)
+    .sort(([, a], [, b]) => a - b);
+  return closest && closest[1] <= 3 ? closest[0] : undefined;
+};
+
+/**
+ * Reports every unknown or invalid option of `value`
+ * @param source The file or function the options were read from
+ * @returns The options without any of the reported keys
+ */
+export const validateConfig = (
+  value: unknown,
+  source: string,
+  diagnostics: Diagnostics
+): MiddlewareConfig => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    diagnostics.report("INVALID_CONFIG", "expected an object", [source]);
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([key, option]) => {
+      if (option === undefined) return false;
+      if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+        const suggestion = getSuggestion(key);
+        diagnostics.report(
+          "INVALID_CONFIG",
+          `unknown option "${key}"${
+            suggestion ? `, did you mean "${suggestion}"?` : ""
+          }`,
+          [source]
+        );
+        return false;
+      }
+      const { expected, validate } = schema[key as keyof MiddlewareConfig];
+      if (!validate(option)) {
+        diagnostics.report(
+          "INVALID_CONFIG",
+          `option "${key}" must be ${expected}, received ${JSON.stringify(
+            option
+          )}`,
+          [source]
+        );
+        return false;
+      }
+      return true;
+    })
+  );
+};
+
+/**
+ * @returns The validated default export of `middleware.config.{ts,js}` in
+ * `rootDir`, an empty config if there is none
+ */
+export const loadConfig = async (rootDir: string, diagnostics: Diagnostics) => {
+  const [match] = await glob("./middleware.config.{ts,js}", { cwd: rootDir });
+  if (!match) return {};
+  const exports = await runScrpt<{ default?: unknown }>(join(rootDir, match));
+  return validateConfig(
+    "default" in exports ? exports.default : exports,
+    match,
+    diagnostics
+  );
+};
@@ -0,0 +1,83 @@
+import { join } from "path";
+import { SegmentLayout } from "../types";
+import { getImportPath, Project } from "./project";
+
+/**
+ * @returns A flat list of the segment and all of its descendants
+ */
+const getSegments = (layout: SegmentLayout): SegmentLayout[] => [
+  layout,
+  ...Object.values(layout.children).flatMap(getSegments),
+];
+
+/**
+ * @returns The segment and all of its parents, nearest first
+ */
+const getAncestors = (segment: SegmentLayout): SegmentLayout[] => [
+  segment,
+  ...(segment.parent ? getAncestors(segment.parent()) : []),
+];
+
+/**
+ * @returns The locals type of the segment, the `Locals` of all middleware
+ * above it. All of them are optional as a middleware does not run for methods
+ * it does not handle or after a middleware above returned `{ next: true }`,
+ * and the locals of its own middleware are written while the segment is
+ * handled.
+ */
+const renderLocals = (project: Project, segment: SegmentLayout) =>
+  getAncestors(segment)
+    .filter(({ locals }) => locals)
+    .map(
+      ({ location }) =>
+        `Partial<import(${JSON.stringify(
+          getImportPath(project, join(project.rootDir, location, "middleware"))
+        )}).Locals>`
+    )
+    .join(" & ");
+
+/**
+ * @returns The augmentation of `SegmentLocalsMap`, empty if no middleware
+ * exports a `Locals` type
+ */
+const renderLocalsMap = (layout: SegmentLayout, project: Project) => {
+  const entries = getSegments(layout)
+    .map((segment) => [segment.location, renderLocals(project, segment)])
+    .filter(([, locals]) => locals)
+    .map(([location, locals]) => `${JSON.stringify(location)}: ${locals};`);
+  return entries.length
+    ? `
+interface SegmentLocalsMap {
+  ${entries.join("\n")}
+}
+`
+    : "";
+};
+
+/**
+ * @returns The contents of `middleware-env.d.ts`, augments the `SegmentPaths`
+ * and `SegmentLocalsMap` interfaces of the runtime with the internal path and
+ * the locals of every segment so that handlers can be typed by their location.
+ */
+const renderDeclarations = (layout: SegmentLayout, project: Project) =>
+  `
+// This file is generated by @cxnpl/next-app-middleware, do not edit.
+import "@cxnpl/next-app-middleware/runtime";
+
+declare module "@cxnpl/next-app-middleware/runtime" {
+  interface SegmentPaths {
+    ${getSegments(layout)
+      .map(
+        ({ location, internalPath }) =>
+          `${JSON.stringify(location)}: ${JSON.stringify(
+            internalPath === "//" ? "/" : internalPath
+          )};`
+      )
+      .join("\n")}
+  }
+
+  ${renderLocalsMap(layout, project)}
+}
+`.trimStart();
+
+export default renderDeclarations;
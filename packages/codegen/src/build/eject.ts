@@ -3,57 +3,76 @@ import {
   BranchTypes,
   PathSegmentSwitch,
 } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
-import { FlattenedRoute, RouteTypes, SegmentLayout } from "../types";
+import {
+  FlattenedRoute,
+  ForwarderConfig,
+  RouteTypes,
+  SegmentLayout,
+} from "../types";
+import { getForwardSource } from "./layout";
+import { ejectNotFound } from "./not-found";
+import { isSkippedRoute } from "./route";
+import { enterSegments, getEnteredSegments } from "./segment-handlers";
 
-type MatcherMap = Map<string, FlattenedRoute | MatcherMap | true>;
+type MatcherMap = Map<string, FlattenedRoute | MatcherMap>;
+
+/**
+ * Adds `endpoint` to the map at the position described by `pathHash`. Optional
+ * catch alls are added as the endpoint of their parent as well as its catch
+ * all so they match the bare path and any deeper path.
+ */
+const addToMap = (
+  map: MatcherMap,
+  pathHash: string,
+  endpoint: FlattenedRoute
+) => {
+  let currentMap = map;
+  const segments = pathHash.slice(1).split("/");
+  let catchAll: string | undefined;
+  for (const segment of segments.slice(0, -1)) {
+    if (segment === "*" || segment === "*?") {
+      catchAll = segment;
+      break;
+    }
+    if (!currentMap.has(segment)) currentMap.set(segment, new Map());
+    currentMap = currentMap.get(segment) as MatcherMap;
+  }
+  if (catchAll === "*?") currentMap.set("", endpoint);
+  currentMap.set(catchAll ? "*" : "", endpoint);
+};
 
 export const toMatcherMap = (
   endpoints: (readonly [string, FlattenedRoute | SegmentLayout])[]
 ) => {
   const map: MatcherMap = new Map();
   for (const [pathHash, route] of endpoints) {
-    let currentMap = map;
-    const segments = pathHash.slice(1).split("/");
-    let isCatchAll = false;
-    for (const segment of segments.slice(0, -1)) {
-      if (segment === "*") {
-        isCatchAll = true;
-        break;
-      }
-      if (!currentMap.has(segment)) currentMap.set(segment, new Map());
-      currentMap = currentMap.get(segment) as MatcherMap;
-    }
-    currentMap.set(
-      isCatchAll ? "*" : "",
+    addToMap(
+      map,
+      pathHash,
       route instanceof Array ? route : [route, { type: RouteTypes.NEXT }]
     );
   }
   return map;
 };
 
-export const addRoutesToMap = (map: MatcherMap, routeHashes: string[]) => {
-  for (const routeHash of routeHashes) {
-    const segments = routeHash.slice(1).split("/");
-    let currentMap = map;
-    let isCatchAll = false;
-    for (const segment of segments.slice(0, -1)) {
-      if (segment === "*") {
-        isCatchAll = true;
-        break;
-      }
-      if (!currentMap.has(segment)) currentMap.set(segment, new Map());
-      currentMap = currentMap.get(segment) as MatcherMap;
-    }
-    currentMap.set(isCatchAll ? "*" : "", true);
-  }
-  return map;
-};
-
 const ejectPage = (
   page: SegmentLayout,
   appliedParams: Set<string>,
-  catchAllApplied: boolean
+  catchAllApplied: boolean,
+  enteredSegments: string[]
 ): Branch => {
+  // skipped route handlers do not run the handlers of their segments
+  const entered = page.skipMiddleware
+    ? []
+    : getEnteredSegments([page], enteredSegments);
+  if (entered.length)
+    return enterSegments(
+      entered,
+      ejectPage(page, appliedParams, catchAllApplied, [
+        ...enteredSegments,
+        ...entered.map(({ location }) => location),
+      ])
+    );
   const segments = page.externalPath.split("/");
   const [segment] = segments.filter(
     (segment) => segment.startsWith(":") && !appliedParams.has(segment.slice(1))
@@ -67,19 +86,19 @@ const ejectPage = (
       type: BranchTypes.DYNAMIC,
       name,
       index,
-      then: ejectPage(page, appliedParams, catchAllApplied),
+      then: ejectPage(page, appliedParams, catchAllApplied, enteredSegments),
     };
   }
 
   const lastSegment = segments[segments.length - 2];
   if (lastSegment.startsWith("*") && !catchAllApplied) {
-    const name = lastSegment.slice(1);
+    const name = lastSegment.replace(/^\*\??/, "");
     const index = segments.indexOf(lastSegment) - 1;
     return {
       type: BranchTypes.CATCH_ALL,
       name,
       index,
-      then: ejectPage(page, appliedParams, true),
+      then: ejectPage(page, appliedParams, true, enteredSegments),
     };
   }
 
@@ -93,11 +112,12 @@ const ejectPage = (
       location: page.location,
       internalPath: page.internalPath,
       fallback:
-        page.redirect || page.page
+        page.redirect || page.page || page.route
           ? ejectPage(
               { ...page, rewrite: false },
               appliedParams,
-              catchAllApplied
+              catchAllApplied,
+              enteredSegments
             )
           : undefined,
     };
@@ -106,13 +126,15 @@ const ejectPage = (
       type: BranchTypes.REDIRECT,
       location: page.location,
       internalPath: page.internalPath,
-      fallback: page.page
-        ? ejectPage(
-            { ...page, redirect: false },
-            appliedParams,
-            catchAllApplied
-          )
-        : undefined,
+      fallback:
+        page.page || page.route
+          ? ejectPage(
+              { ...page, redirect: false },
+              appliedParams,
+              catchAllApplied,
+              enteredSegments
+            )
+          : undefined,
     };
   return {
     type: BranchTypes.NEXT,
@@ -121,11 +143,51 @@ const ejectPage = (
   };
 };
 
+/**
+ * @returns The child segment a forward of `segment` leads to, route group
+ * children are searched as well as they share the forwards of their parent
+ */
+const getForwardedChild = (
+  segment: SegmentLayout,
+  { type, name }: ForwarderConfig
+): SegmentLayout | undefined => {
+  for (const child of Object.values(segment.children)) {
+    if (
+      type === RouteTypes.DYNAMIC_FORWARD
+        ? child.dynamic === name
+        : child.staticForward && child.segment === name
+    )
+      return child;
+    const nested = child.group
+      ? getForwardedChild(child, { type, name })
+      : undefined;
+    if (nested) return nested;
+  }
+};
+
+/**
+ * @param enteredSegments Locations of the segments whose error boundaries and
+ * after handlers already enclose the branch
+ */
 const ejectRoute = (
   [currentSegment, config, next, forward]: FlattenedRoute,
   appliedParams = new Set<string>(),
-  catchAllApplied = false
+  catchAllApplied = false,
+  enteredSegments: string[] = []
 ): Branch => {
+  const entered = isSkippedRoute([currentSegment, config, next, forward])
+    ? []
+    : getEnteredSegments([currentSegment], enteredSegments);
+  if (entered.length)
+    return enterSegments(
+      entered,
+      ejectRoute(
+        [currentSegment, config, next, forward],
+        appliedParams,
+        catchAllApplied,
+        [...enteredSegments, ...entered.map(({ location }) => location)]
+      )
+    );
   const segments = currentSegment.externalPath.split("/");
   const [segment] = segments.filter(
     (segment) => segment.startsWith(":") && !appliedParams.has(segment.slice(1))
@@ -142,13 +204,14 @@ const ejectRoute = (
       then: ejectRoute(
         [currentSegment, config, next, forward],
         appliedParams,
-        catchAllApplied
+        catchAllApplied,
+        enteredSegments
       ),
     };
   }
   const lastSegment = segments[segments.length - 2];
   if (lastSegment.startsWith("*") && !catchAllApplied) {
-    const name = lastSegment.slice(1);
+    const name = lastSegment.replace(/^\*\??/, "");
     const index = segments.indexOf(lastSegment) - 1;
     return {
       type: BranchTypes.CATCH_ALL,
@@ -157,7 +220,8 @@ const ejectRoute = (
       then: ejectRoute(
         [currentSegment, config, next, forward],
         appliedParams,
-        true
+        true,
+        enteredSegments
       ),
     };
   }
@@ -170,36 +234,45 @@ const ejectRoute = (
         location: currentSegment.location,
         then:
           next instanceof Array
-            ? ejectRoute(next, appliedParams, catchAllApplied)
+            ? ejectRoute(next, appliedParams, catchAllApplied, enteredSegments)
             : next
-            ? ejectPage(next, appliedParams, catchAllApplied)
-            : {
-                type: BranchTypes.NOT_FOUND,
-              },
+            ? ejectPage(next, appliedParams, catchAllApplied, enteredSegments)
+            : ejectNotFound([currentSegment], false),
+        notFound: ejectNotFound([currentSegment], false),
       };
     }
     case RouteTypes.DYNAMIC_FORWARD: {
       return {
         type: BranchTypes.DYNAMIC_FORWARD,
         name: config.name,
+        source: getForwardSource(currentSegment.forward, config.name),
         internalPath: currentSegment.internalPath,
         location: currentSegment.location,
         then:
           next instanceof Array
-            ? ejectRoute(next, appliedParams, catchAllApplied)
+            ? ejectRoute(next, appliedParams, catchAllApplied, enteredSegments)
             : next
-            ? ejectPage(next, appliedParams, catchAllApplied)
-            : {
-                type: BranchTypes.NOT_FOUND,
-              },
+            ? ejectPage(next, appliedParams, catchAllApplied, enteredSegments)
+            : ejectNotFound([currentSegment], false),
         forward:
           forward instanceof Array
-            ? ejectRoute(forward, appliedParams, catchAllApplied)
+            ? ejectRoute(
+                forward,
+                appliedParams,
+                catchAllApplied,
+                enteredSegments
+              )
             : forward
-            ? ejectPage(forward, appliedParams, catchAllApplied)
-            : {
-                type: BranchTypes.NOT_FOUND,
-              },
+            ? ejectPage(
+                forward,
+                appliedParams,
+                catchAllApplied,
+                enteredSegments
+              )
+            : ejectNotFound(
+                [getForwardedChild(currentSegment, config) || currentSegment],
+                false
+              ),
       };
     }
     case RouteTypes.STATIC_FORWARD: {
@@ -210,24 +283,38 @@ const ejectRoute = (
         location: currentSegment.location,
         then:
           next instanceof Array
-            ? ejectRoute(next, appliedParams, catchAllApplied)
+            ? ejectRoute(next, appliedParams, catchAllApplied, enteredSegments)
             : next
-            ? ejectPage(next, appliedParams, catchAllApplied)
-            : {
-                type: BranchTypes.NOT_FOUND,
-              },
+            ? ejectPage(next, appliedParams, catchAllApplied, enteredSegments)
+            : ejectNotFound([currentSegment], false),
         forward:
           forward instanceof Array
-            ? ejectRoute(forward, appliedParams, catchAllApplied)
+            ? ejectRoute(
+                forward,
+                appliedParams,
+                catchAllApplied,
+                enteredSegments
+              )
             : forward
-            ? ejectPage(forward, appliedParams, catchAllApplied)
-            : {
-                type: BranchTypes.NOT_FOUND,
-              },
+            ? ejectPage(
+                forward,
+                appliedParams,
+                catchAllApplied,
+                enteredSegments
+              )
+            : ejectNotFound(
+                [getForwardedChild(currentSegment, config) || currentSegment],
+                false
+              ),
       };
     }
     case RouteTypes.NEXT: {
-      return ejectPage(currentSegment, appliedParams, catchAllApplied);
+      return ejectPage(
+        currentSegment,
+        appliedParams,
+        catchAllApplied,
+        enteredSegments
+      );
     }
     default: {
       const exhaustive: never = config;
@@ -239,9 +326,9 @@ const ejectRoute = (
 const specialCases = ["", ":", "*", "\\"];
 
 const getMatcherMapInfo = (map: MatcherMap) => ({
-  endpoint: map.get("") as FlattenedRoute | true | undefined,
+  endpoint: map.get("") as FlattenedRoute | undefined,
   dynamic: map.get(":"),
-  catchAll: map.get("*") as FlattenedRoute | true | undefined,
+  catchAll: map.get("*") as FlattenedRoute | undefined,
   external: (map.get("\\") as MatcherMap | undefined)?.get("") as
     | FlattenedRoute
     | undefined,
@@ -250,14 +337,16 @@ const getMatcherMapInfo = (map: MatcherMap) => ({
   ),
 });
 
+/**
+ * @param resolveNotFound Returns the branch for requests that matched the
+ * external path hash `path` but none of its children
+ */
 export const ejectMatcherMap = (
-  mapOrRoute: FlattenedRoute | MatcherMap | true,
-  depth = 0
+  mapOrRoute: FlattenedRoute | MatcherMap,
+  resolveNotFound: (path: string) => Branch,
+  depth = 0,
+  path = "/"
 ): Branch => {
-  if (mapOrRoute === true)
-    return {
-      type: BranchTypes.SKIP,
-    };
   if (mapOrRoute instanceof Map) {
     const map = getMatcherMapInfo(mapOrRoute);
     if (map.external) {
@@ -266,18 +355,17 @@ export const ejectMatcherMap = (
     const cases: PathSegmentSwitch["cases"] = [
       {
         match: "",
-        then: map.endpoint
-          ? map.endpoint === true
-            ? { type: BranchTypes.SKIP }
-            : ejectRoute(map.endpoint)
-          : {
-              type: BranchTypes.NOT_FOUND,
-            },
+        then: map.endpoint ? ejectRoute(map.endpoint) : resolveNotFound(path),
       },
       ...map.static.map(([segment, entry]) => {
         return {
           match: segment,
-          then: ejectMatcherMap(entry, depth + 1),
+          then: ejectMatcherMap(
+            entry,
+            resolveNotFound,
+            depth + 1,
+            `${path}${segment}/`
+          ),
         };
       }),
     ];
@@ -287,35 +375,39 @@ export const ejectMatcherMap = (
           type: BranchTypes.SWITCH,
           index: depth,
           cases,
-          defaultCase: ejectMatcherMap(map.dynamic, depth + 1),
-          catchAll:
-            map.catchAll === true
-              ? { type: BranchTypes.SKIP }
-              : ejectRoute(map.catchAll),
+          defaultCase: ejectMatcherMap(
+            map.dynamic,
+            resolveNotFound,
+            depth + 1,
+            `${path}:/`
+          ),
+          catchAll: ejectRoute(map.catchAll),
         };
       else
         return {
           type: BranchTypes.SWITCH,
           index: depth,
           cases,
-          defaultCase: ejectMatcherMap(map.dynamic, depth + 1),
+          defaultCase: ejectMatcherMap(
+            map.dynamic,
+            resolveNotFound,
+            depth + 1,
+            `${path}:/`
+          ),
         };
     } else if (map.catchAll)
       return {
         type: BranchTypes.SWITCH,
         index: depth,
         cases,
-        defaultCase:
-          map.catchAll === true
-            ? { type: BranchTypes.SKIP }
-            : ejectRoute(map.catchAll),
+        defaultCase: ejectRoute(map.catchAll),
       };
     else
       return {
         type: BranchTypes.SWITCH,
         index: depth,
         cases,
-        defaultCase: { type: BranchTypes.NOT_FOUND },
+        defaultCase: resolveNotFound(path),
       };
   } else {
     return ejectRoute(mapOrRoute);
@@ -1,5 +1,6 @@
 import { SegmentLayout } from "../types";
 import { join } from "path";
+import { Diagnostics } from "../util/diagnostics";
 import runScrpt from "../util/run-script";
 
 type ConfigRewrite = {
@@ -7,23 +8,55 @@ type ConfigRewrite = {
   destination: string;
 };
 
+/**
+ * Reports all external segments that can not be turned into config rewrites
+ * @returns The external segments without any of the reported segments
+ */
+export const validateExternals = (
+  segments: SegmentLayout[],
+  diagnostics: Diagnostics
+) =>
+  segments.filter((segment) => {
+    if (segment.internalPath !== segment.externalPath) {
+      diagnostics.report(
+        "FORWARDED_EXTERNAL",
+        "external.ts files can not depend on a forward",
+        [segment.location]
+      );
+      return false;
+    }
+    if (segment.hash.includes("/:/")) {
+      diagnostics.report(
+        "DYNAMIC_EXTERNAL",
+        "external.ts path can not have dynamic segment",
+        [segment.location]
+      );
+      return false;
+    }
+    return true;
+  });
+
+/**
+ * Resolves the origins of all external segments, origins that can not be
+ * resolved are reported to `diagnostics`
+ * @returns The config rewrites of all resolved external segments
+ */
 const getConfigRewrites = async (
-  segments: SegmentLayout[]
+  segments: SegmentLayout[],
+  rootDir: string,
+  diagnostics: Diagnostics
 ): Promise<ConfigRewrite[]> => {
-  return (
-    await Promise.all(
-      segments.map(async (segment) => {
-        if (segment.internalPath !== segment.externalPath)
-          throw new Error("external.ts files can not depend on a forward");
-        if (segment.hash.includes("/:/"))
-          throw new Error("external.ts path can not have dynamic segment");
-        if (typeof segment.external !== "string")
-          throw new Error(
-            "Expected segment.external to be of type string when getting config rewrites."
-          );
+  const rewrites = await Promise.all(
+    segments.map(async (segment) => {
+      if (typeof segment.external !== "string")
+        throw new Error(
+          "Expected segment.external to be of type string when getting config rewrites."
+        );
+      const location = join(segment.location, segment.external);
+      try {
         const { default: origin } = await runScrpt<{
           default: string | (() => Promise<string>);
-        }>(join(process.cwd(), segment.location, segment.external));
+        }>(join(rootDir, location));
         const url = new URL(
           segment.hash.replace("/\\/", ""),
           typeof origin === "function" ? await origin() : origin
@@ -38,9 +71,19 @@ const getConfigRewrites = async (
             destination: url.href + "/:path*",
           },
         ];
-      })
-    )
-  ).flat();
+      } catch (e) {
+        diagnostics.report(
+          "EXTERNAL_ORIGIN",
+          `could not resolve external origin: ${
+            e instanceof Error ? e.message : e
+          }`,
+          [location]
+        );
+        return [];
+      }
+    })
+  );
+  return rewrites.flat();
 };
 
 export default getConfigRewrites;
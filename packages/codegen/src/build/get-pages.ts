@@ -1,35 +1,43 @@
 import { SegmentLayout } from "../types";
 
-/**
- * @returns A list of `SegmentLayout` that are externally accessible endpoints
- */
-const getPages = (layout: SegmentLayout): SegmentLayout[] => {
+const collectPages = (layout: SegmentLayout): SegmentLayout[] => {
   const result: SegmentLayout[] = [];
-  // pages, externals, redirects and rewrites are considered endpoints
-  if (layout.page || layout.external || layout.redirect || layout.rewrite)
+  // pages, route handlers, externals, redirects and rewrites are considered
+  // endpoints
+  if (
+    layout.page ||
+    layout.route ||
+    layout.external ||
+    layout.redirect ||
+    layout.rewrite
+  )
     result.push(layout);
   for (const child of Object.values(layout.children)) {
-    result.push(...getPages(child));
+    result.push(...collectPages(child));
   }
   return result;
 };
 
-export const getRoutes = (layout: SegmentLayout) => {
-  const result: string[] = [];
-  // pages, externals, redirects and rewrites are considered endpoints
-  if (layout.route)
-    result.push(
-      layout.internalPath
-        .split("/")
-        .map((part) =>
-          part.startsWith(":") ? ":" : part.startsWith("*") ? "*" : part
-        )
-        .join("/")
-    );
-  for (const child of Object.values(layout.children)) {
-    result.push(...getRoutes(child));
-  }
-  return result;
+const isInSlot = (layout: SegmentLayout): boolean =>
+  layout.slot || (!!layout.parent && isInSlot(layout.parent()));
+
+/**
+ * @returns A list of `SegmentLayout` that are externally accessible endpoints
+ */
+const getPages = (layout: SegmentLayout): SegmentLayout[] => {
+  const pages = collectPages(layout);
+  // pages inside parallel route slots are rendered alongside the page with the
+  // same path, only the first one is an endpoint
+  return pages.filter(
+    (page, index) =>
+      !isInSlot(page) ||
+      !pages.some(
+        (other, otherIndex) =>
+          other !== page &&
+          other.internalPath === page.internalPath &&
+          (!isInSlot(other) || otherIndex < index)
+      )
+  );
 };
 
 export default getPages;
@@ -0,0 +1,42 @@
+import { relative } from "path";
+import { SegmentLayout } from "../types";
+import getPages from "./get-pages";
+import { isPathlessSegment } from "./regex";
+
+/**
+ * @returns The route of the segment as it is written in the app directory,
+ * without any route group or slot segments
+ */
+export const getInternalRoute = (appDir: string, location: string) =>
+  "/" +
+  relative(appDir, location)
+    .split("/")
+    .filter((segment) => segment && !isPathlessSegment(segment))
+    .join("/");
+
+/**
+ * @returns The contents of `middleware.routes.{ts,js}`, maps the internal
+ * route of every page and route handler to its external path. Pages that can not be reached
+ * from the browser are left out so `href` rejects them.
+ */
+const renderRoutes = (layout: SegmentLayout) =>
+  `
+// This file is generated by @cxnpl/next-app-middleware, do not edit.
+import { createHref } from "@cxnpl/next-app-middleware/runtime";
+
+export const routes = {
+  ${getPages(layout)
+    .filter((segment) => (segment.page || segment.route) && !segment.external)
+    .map(
+      (segment) =>
+        `${JSON.stringify(
+          getInternalRoute(layout.location, segment.location)
+        )}: ${JSON.stringify(segment.externalPath)},`
+    )
+    .join("\n")}
+} as const;
+
+export const href = createHref(routes);
+`.trimStart();
+
+export default renderRoutes;
@@ -1,4 +1,5 @@
 import {
+  EjectedRouter,
   Imports,
   renderRouter,
 } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
@@ -6,63 +7,107 @@ import { transform } from "@swc/core";
 import fse from "fs-extra";
 import { join } from "path";
 import { format } from "prettier";
-import { FlattenedRoute, RouteTypes, SegmentLayout } from "../types";
+import {
+  FlattenedRoute,
+  ResolvedRoute,
+  RouteTypes,
+  SegmentLayout,
+} from "../types";
 import CancelToken from "../util/CancelToken";
+import { Diagnostics } from "../util/diagnostics";
 import logger from "../util/log";
 import collectLayout from "./collect-layout";
 import collectPublicFiles from "./collect-public";
-import { addRoutesToMap, ejectMatcherMap, toMatcherMap } from "./eject";
-import getConfigRewrites from "./get-config-rewrites";
-import getPages, { getRoutes, getSimilarPages } from "./get-pages";
-import { mergeLayouts, resolveLayouts, validateLayout } from "./layout";
+import renderDeclarations from "./declarations";
+import { ejectMatcherMap, toMatcherMap } from "./eject";
+import getConfigRewrites, { validateExternals } from "./get-config-rewrites";
+import getPages, { getSimilarPages } from "./get-pages";
+import renderRoutes from "./href";
+import inspectRoutes from "./inspect";
+import {
+  getForwardSource,
+  mergeLayouts,
+  resolveLayouts,
+  validateLayout,
+} from "./layout";
+import getLocalePrefixes from "./locale";
+import getMatcher from "./matcher";
+import {
+  createNotFoundResolver,
+  getForwards,
+  getNotFoundSegments,
+  validateNotFoundPages,
+} from "./not-found";
+import { getImportPath, Project } from "./project";
 import readHooksConfig from "./read-config";
-import { flattenMergedRoute, OnSegment, traverseRoute } from "./route";
+import {
+  flattenMergedRoute,
+  OnSegment,
+  traverseRoute,
+  withoutSkippedMiddleware,
+} from "./route";
+import { getAfterSegments, getErrorSegments } from "./segment-handlers";
 
-const { outputFile, stat } = fse;
+const { outputFile } = fse;
 
 /**
- * @returns true if tsconfig.json exists
+ * @returns A list of all external path hashes together with the flattened
+ * route that handles requests matching them
  */
-const isTypescript = async () => {
-  try {
-    const stats = await stat(join(process.cwd(), "tsconfig.json"));
-    return stats.isFile();
-  } catch {
-    return false;
-  }
-};
-
-const generate = async (isTypescriptPromise: Promise<boolean>) => {
-  const hooksPromise = readHooksConfig();
-  const publicPromise = collectPublicFiles();
-  const layout = await collectLayout();
+export const resolveRoutes = (
+  layout: SegmentLayout,
+  diagnostics: Diagnostics
+): ResolvedRoute[] => {
   const pages = getPages(layout);
-  const externalLayout = getSimilarPages(pages);
-  validateLayout(externalLayout);
-  const routes = Object.entries(externalLayout).map(([key, layouts]) => {
+  const externalLayout = validateLayout(getSimilarPages(pages), diagnostics);
+  return Object.entries(externalLayout).map(([key, layouts]) => {
     const resolvedLayouts = resolveLayouts(layouts);
-    const mergedRoutes = mergeLayouts(resolvedLayouts);
+    const mergedRoutes = mergeLayouts(resolvedLayouts, diagnostics);
     return [
       key,
-      flattenMergedRoute(mergedRoutes) as FlattenedRoute | SegmentLayout,
-    ] as const;
+      withoutSkippedMiddleware(flattenMergedRoute(mergedRoutes)) as
+        | FlattenedRoute
+        | SegmentLayout,
+    ];
   });
+};
+
+/**
+ * @returns The `EjectedRouter` of the app directory and all segments that
+ * route to an external origin. Problems are reported to `diagnostics`.
+ */
+export const ejectRouter = async (
+  project: Project,
+  diagnostics: Diagnostics
+) => {
+  const hooksPromise = readHooksConfig(project, diagnostics);
+  const publicPromise = collectPublicFiles(project);
+  const layout = await collectLayout(project, diagnostics);
+  const routes = resolveRoutes(layout, diagnostics);
   const imports: Imports = {
     "forward.dynamic": new Set(),
+    "forward.host": new Set(),
+    "forward.locale": new Set(),
+    "forward.experiment": new Set(),
     "forward.static": new Set(),
     middleware: new Set(),
     redirect: new Set(),
     rewrite: new Set(),
+    "middleware.not-found": new Set(),
+    "middleware.error": new Set(),
+    "middleware.after": new Set(),
   };
   const externals: SegmentLayout[] = [];
-  const onSegment: OnSegment<undefined> = (segment, { type }) => {
-    switch (type) {
+  const onSegment: OnSegment<undefined> = (segment, config) => {
+    switch (config.type) {
       case RouteTypes.MIDDLEWARE: {
         imports.middleware.add(segment.location);
         break;
       }
       case RouteTypes.DYNAMIC_FORWARD: {
-        imports["forward.dynamic"].add(segment.location);
+        imports[
+          `forward.${getForwardSource(segment.forward, config.name)}`
+        ].add(segment.location);
         break;
       }
       case RouteTypes.STATIC_FORWARD: {
@@ -79,7 +124,7 @@ const generate = async (isTypescriptPromise: Promise<boolean>) => {
         break;
       }
       default: {
-        const _exhaustive: never = type;
+        const _exhaustive: never = config;
         return _exhaustive;
       }
     }
@@ -88,55 +133,157 @@ const generate = async (isTypescriptPromise: Promise<boolean>) => {
     if (route instanceof Array) traverseRoute(route, onSegment);
     else onSegment(route, { type: RouteTypes.NEXT });
   });
-  const routeEndpoints = getRoutes(layout);
-  const ejectedBranches = ejectMatcherMap(
-    addRoutesToMap(toMatcherMap(routes), routeEndpoints)
+  const notFoundSegments = getNotFoundSegments(layout);
+  validateNotFoundPages(layout, project.notFound, diagnostics);
+  notFoundSegments.forEach((segment) => {
+    if (segment.notFoundMiddleware)
+      imports["middleware.not-found"].add(segment.location);
+    // forwards are resolved again for requests that did not match a route
+    getForwards(segment).forEach(({ type, location }) =>
+      imports[`forward.${type}`].add(location)
+    );
+  });
+  getErrorSegments(layout).forEach((segment) =>
+    imports["middleware.error"].add(segment.location)
   );
-  const ejectedRouter = renderRouter({
-    branches: ejectedBranches,
+  const afterSegments = getAfterSegments(layout);
+  afterSegments.forEach((segment) =>
+    imports["middleware.after"].add(segment.location)
+  );
+  const localePrefixes = getLocalePrefixes(layout);
+  const { config: hooks, file: hooksFile } = await hooksPromise;
+  const router: EjectedRouter = {
+    branches: ejectMatcherMap(
+      toMatcherMap(routes),
+      createNotFoundResolver(layout)
+    ),
     publicFiles: await publicPromise,
-    hooks: await hooksPromise,
+    hooks,
+    hooksFile: hooksFile
+      ? getImportPath(project, hooksFile.replace(/\.[^/.]+$/, ""))
+      : "./middleware.hooks",
     imports,
+    rootDir: getImportPath(project, project.rootDir),
+    ignoredPrefixes: project.ignoredPrefixes,
+    methods: project.methods,
+    notFound: project.notFound,
+    protectedHeaders: project.protectedHeaders,
+    localePrefixes,
+    matcher: getMatcher(
+      inspectRoutes(layout, routes),
+      notFoundSegments,
+      afterSegments,
+      localePrefixes,
+      hooks,
+      project.ignoredPrefixes,
+      project.protectedHeaders
+    ),
+  };
+  return {
+    router,
+    layout,
+    externals: validateExternals(externals, diagnostics),
+  };
+};
+
+/**
+ * @returns The code formatted with prettier unless formatting is disabled
+ */
+const toTypescript = (code: string, project: Project) =>
+  project.format ? format(code, { parser: "babel-ts" }) : code;
+
+/**
+ * @returns The code transpiled to javascript, formatted with prettier unless
+ * formatting is disabled
+ */
+const toJavascript = async (code: string, project: Project) => {
+  const { code: transformed } = await transform(code, {
+    jsc: {
+      parser: {
+        syntax: "typescript",
+        dynamicImport: true,
+      },
+      target: "es2022",
+    },
+    module: {
+      type: "es6",
+    },
+    sourceMaps: false,
   });
-  const configRewrites = getConfigRewrites(externals);
-  if (await isTypescriptPromise) {
+  return project.format
+    ? format(transformed, { parser: "babel" })
+    : transformed;
+};
+
+/**
+ * @returns The absolute path the generated segment declarations are written to
+ */
+export const getDeclarationsPath = ({ outDir }: Project) =>
+  join(outDir, "middleware-env.d.ts");
+
+/**
+ * @returns The absolute path the generated route mapping is written to
+ */
+export const getRoutesPath = ({ outDir, typescript }: Project) =>
+  join(outDir, `middleware.routes.${typescript ? "ts" : "js"}`);
+
+/**
+ * @returns All files that make up the generated middleware
+ * @throws `DiagnosticsError` if any errors were found in the app directory
+ */
+export const generate = async (project: Project) => {
+  const diagnostics = new Diagnostics(project.strict);
+  const { router, layout, externals } = await ejectRouter(project, diagnostics);
+  const configRewrites = await getConfigRewrites(
+    externals,
+    project.rootDir,
+    diagnostics
+  );
+  diagnostics.throwIfErrors();
+  const ejectedRouter = renderRouter(router);
+  const routes = renderRoutes(layout);
+  if (project.typescript) {
     logger.info("using typescript");
     return {
-      code: format(ejectedRouter, { parser: "babel-ts" }),
+      files: [
+        {
+          path: project.outFile,
+          code: toTypescript(ejectedRouter, project),
+        },
+        {
+          path: getDeclarationsPath(project),
+          code: toTypescript(renderDeclarations(layout, project), project),
+        },
+        {
+          path: getRoutesPath(project),
+          code: toTypescript(routes, project),
+        },
+      ],
       rewrites: configRewrites,
+      diagnostics: diagnostics.warnings,
     };
   } else {
     logger.info("using javascript");
-    const { code } = await transform(ejectedRouter, {
-      jsc: {
-        parser: {
-          syntax: "typescript",
-          dynamicImport: true,
-        },
-        target: "es2022",
-      },
-      module: {
-        type: "es6",
-      },
-      sourceMaps: false,
-    });
     return {
-      code: format(code, { parser: "babel" }),
+      files: [
+        {
+          path: project.outFile,
+          code: await toJavascript(ejectedRouter, project),
+        },
+        {
+          path: getRoutesPath(project),
+          code: await toJavascript(routes, project),
+        },
+      ],
       rewrites: configRewrites,
+      diagnostics: diagnostics.warnings,
     };
   }
 };
 
-export const build = async (token?: CancelToken) => {
-  const isTypescriptPromise = isTypescript();
-  const { code, rewrites } = await generate(isTypescriptPromise);
+export const build = async (project: Project, token?: CancelToken) => {
+  const { files, rewrites, diagnostics } = await generate(project);
   if (token && token.cancelled) return { cancelled: true };
-  await outputFile(
-    join(
-      process.cwd(),
-      `middleware.${(await isTypescriptPromise) ? "ts" : "js"}`
-    ),
-    code
-  );
-  return { cancelled: false, rewrites };
+  await Promise.all(files.map(({ path, code }) => outputFile(path, code)));
+  return { cancelled: false, rewrites, diagnostics };
 };
@@ -0,0 +1,101 @@
+import {
+  FlattenedRoute,
+  ResolvedRoute,
+  RouteStep,
+  RouteTableEntry,
+  RouteTypes,
+  SegmentLayout,
+} from "../types";
+import getPages, { getSimilarPages } from "./get-pages";
+import { getForwardSource } from "./layout";
+
+type Resolution = Pick<RouteTableEntry, "chain" | "endpoint" | "internalPath">;
+
+/**
+ * @returns The resolution of a request that reached a page segment. Rewrites
+ * and redirects are part of the chain as they run before the page is reached.
+ */
+const resolvePage = (page: SegmentLayout, chain: RouteStep[]): Resolution => {
+  if (page.external)
+    return {
+      chain: [...chain, { type: "external", location: page.location }],
+      endpoint: "external",
+    };
+  const steps = [...chain];
+  if (page.rewrite) steps.push({ type: "rewrite", location: page.location });
+  if (page.redirect) steps.push({ type: "redirect", location: page.location });
+  if (page.page || page.route)
+    return {
+      chain: steps,
+      endpoint: page.page ? "page" : "route",
+      internalPath: page.internalPath === "//" ? "/" : page.internalPath,
+    };
+  return {
+    chain: steps,
+    endpoint: page.redirect ? "redirect" : "rewrite",
+  };
+};
+
+/**
+ * @returns Every possible resolution of a flattened route. Forwards result in
+ * two resolutions, one where the forward was applied and one where it was not.
+ */
+const resolveRoute = (
+  route: FlattenedRoute | SegmentLayout | undefined,
+  chain: RouteStep[]
+): Resolution[] => {
+  if (!route) return [{ chain, endpoint: "not-found" }];
+  if (!(route instanceof Array)) return [resolvePage(route, chain)];
+  const [current, config, next, forward] = route;
+  switch (config.type) {
+    case RouteTypes.MIDDLEWARE: {
+      return resolveRoute(next, [
+        ...chain,
+        { type: "middleware", location: current.location },
+      ]);
+    }
+    case RouteTypes.DYNAMIC_FORWARD:
+    case RouteTypes.STATIC_FORWARD: {
+      const step: RouteStep = {
+        type:
+          config.type === RouteTypes.DYNAMIC_FORWARD
+            ? `forward.${getForwardSource(current.forward, config.name)}`
+            : "forward.static",
+        location: current.location,
+        name: config.name,
+      };
+      return [
+        ...resolveRoute(forward, [...chain, { ...step, forwarded: true }]),
+        ...resolveRoute(next, [...chain, { ...step, forwarded: false }]),
+      ];
+    }
+    case RouteTypes.NEXT: {
+      return [resolvePage(current, chain)];
+    }
+    default: {
+      const exhaustive: never = config;
+      return exhaustive;
+    }
+  }
+};
+
+/**
+ * @returns The resolved routing table of the app directory, one entry for
+ * each way a request to an external path hash can be resolved
+ */
+const inspectRoutes = (
+  layout: SegmentLayout,
+  routes: ResolvedRoute[]
+): RouteTableEntry[] => {
+  const externalLayout = getSimilarPages(getPages(layout));
+  const entries = routes.flatMap(([path, route]) =>
+    resolveRoute(route, []).map((resolution) => ({
+      path,
+      externalPath: externalLayout[path][0].externalPath,
+      ...resolution,
+    }))
+  );
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+export default inspectRoutes;
@@ -1,31 +1,103 @@
+import { DynamicForwardSource } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
 import {
   ExternalLayout,
+  ForwarderConfig,
   Forwards,
+  MergedForward,
   MergedRoute,
   RouteTypes,
   SegmentLayout,
 } from "../types";
+import { Diagnostics } from "../util/diagnostics";
 import { getRoute } from "./route";
 
-export const validateLayout = (externalLayout: ExternalLayout) => {
-  for (const pages of Object.values(externalLayout)) {
+/**
+ * Reports all external paths that can not be matched unambiguously
+ * @returns The `ExternalLayout` without any of the reported paths
+ */
+export const validateLayout = (
+  externalLayout: ExternalLayout,
+  diagnostics: Diagnostics
+) => {
+  const validLayout: ExternalLayout = {};
+  for (const [hash, pages] of Object.entries(externalLayout)) {
     const externalPath = pages[0].externalPath;
+    let valid = true;
     for (const page of pages.slice(1)) {
-      if (page.externalPath !== externalPath)
-        throw new Error(
-          `Invalid Configuration: ${pages[0].location} and ${page.location} result in different pages but the same Matcher.`
+      if (page.externalPath !== externalPath) {
+        valid = false;
+        diagnostics.report(
+          "MATCHER_CONFLICT",
+          `${pages[0].location} and ${page.location} result in different pages but the same Matcher.`,
+          [pages[0].location, page.location]
         );
+      }
       const sameInternalPath = pages.find(
         (test) => test !== page && test.internalPath === page.internalPath
       );
-      if (sameInternalPath)
-        throw new Error(
-          `Invalid Configuration: ${sameInternalPath.location} and ${page.location} result in the same external and internal path, but different routing.`
+      // every conflicting pair is found twice, only report it once
+      if (
+        sameInternalPath &&
+        pages.indexOf(sameInternalPath) < pages.indexOf(page)
+      ) {
+        valid = false;
+        diagnostics.report(
+          "ROUTE_CONFLICT",
+          `${sameInternalPath.location} and ${page.location} result in the same external and internal path, but different routing.`,
+          [sameInternalPath.location, page.location]
         );
+      }
+      const groupConflict = pages
+        .slice(0, pages.indexOf(page))
+        .find(
+          (test) =>
+            test.internalPath !== page.internalPath &&
+            divergeInGroups(getRoute(test), getRoute(page))
+        );
+      if (groupConflict) {
+        valid = false;
+        diagnostics.report(
+          "GROUP_CONFLICT",
+          `${groupConflict.location} and ${page.location} are reached through different route groups with the same path.`,
+          [groupConflict.location, page.location]
+        );
+      }
     }
+    if (valid) validLayout[hash] = pages;
   }
+  for (const hash of Object.keys(validLayout)) {
+    if (!hash.endsWith("/*?/")) continue;
+    // optional catch alls also match the bare path of their parent
+    const parentHash = hash.slice(0, -"*?/".length);
+    const conflict =
+      externalLayout[parentHash] || externalLayout[parentHash + "*/"];
+    if (!conflict) continue;
+    const [page] = validLayout[hash];
+    diagnostics.report(
+      "OPTIONAL_CATCH_ALL_CONFLICT",
+      `${page.location} is an optional catch all and also matches the path of ${conflict[0].location}.`,
+      [conflict[0].location, page.location]
+    );
+    delete validLayout[hash];
+  }
+  return validLayout;
 };
 
+/**
+ * @returns The file convention that resolves the dynamic forward `name`
+ */
+export const getForwardSource = (
+  forward: Forwards,
+  name: string
+): DynamicForwardSource =>
+  forward.host.includes(name)
+    ? "host"
+    : forward.locale.includes(name)
+    ? "locale"
+    : forward.experiment.includes(name)
+    ? "experiment"
+    : "dynamic";
+
 export const resolveLayouts = (pages: SegmentLayout[]) => {
   const resolved = pages
     .sort(({ location: locationA }, { location: locationB }) => {
@@ -43,85 +115,98 @@ const getNextFullSegment = ([page, ...rest]: SegmentLayout[]) => {
   return current;
 };
 
-const filterDynamicForwardedRoutes =
-  (forward: Forwards) => (layout: SegmentLayout[]) => {
-    const segment = getNextFullSegment(layout);
-    if (!segment) return false;
-    return segment.dynamic && forward.dynamic.includes(segment.dynamic);
-  };
-
-const filterStaticForwardedRoutes =
-  (forward: Forwards) => (layout: SegmentLayout[]) => {
-    const segment = getNextFullSegment(layout);
-    if (!segment) return false;
-    return segment.staticForward && forward.static.includes(segment.segment);
-  };
-
-const filterNextRoutes = (forward: Forwards) => (layout: SegmentLayout[]) => {
+/**
+ * @returns The forward of `forward` that leads to the next full segment of
+ * the layout, `undefined` if it is not forwarded
+ */
+const getForwarderConfig = (
+  forward: Forwards,
+  layout: SegmentLayout[]
+): ForwarderConfig | undefined => {
   const segment = getNextFullSegment(layout);
-  if (!segment) return true;
-  return (
-    (!segment.dynamic || !forward.dynamic.includes(segment.dynamic)) &&
-    (!segment.staticForward || !forward.static.includes(segment.segment))
-  );
+  if (!segment) return undefined;
+  if (segment.staticForward && forward.static.includes(segment.segment))
+    return { type: RouteTypes.STATIC_FORWARD, name: segment.segment };
+  if (segment.dynamic && forward.dynamic.includes(segment.dynamic))
+    return { type: RouteTypes.DYNAMIC_FORWARD, name: segment.dynamic };
 };
 
-const getDynamicForwardParam = (layout: SegmentLayout[]) => {
-  const segment = getNextFullSegment(layout);
-  if (!segment) throw new Error("Error while collecting dynamic forward param");
-  if (!segment.dynamic)
-    throw new Error("Expected dynamic forward param in " + segment.location);
-  return segment.dynamic;
-};
+/**
+ * @returns All forwards of a segment in the order they are tried. Static
+ * forwards are tried before dynamic forwards, which are ordered by their file
+ * (`forward.dynamic`, `forward.host`, `forward.locale`, `forward.experiment`)
+ * and then by the order they are exported.
+ */
+const getForwarderConfigs = (forward: Forwards): ForwarderConfig[] => [
+  ...forward.static.map((name) => ({
+    type: RouteTypes.STATIC_FORWARD as const,
+    name,
+  })),
+  ...forward.dynamic.map((name) => ({
+    type: RouteTypes.DYNAMIC_FORWARD as const,
+    name,
+  })),
+];
 
-const getStaticForwardParam = (layout: SegmentLayout[]) => {
-  const segment = getNextFullSegment(layout);
-  if (!segment) throw new Error("Error while collecting static forward param");
-  if (!segment.staticForward)
-    throw new Error("Expected static forward in " + segment.location);
-  return segment.segment;
+/**
+ * @returns true if the routes part in different segments, one of them a route
+ * group, that are merged by their common parent. Route groups can forward
+ * their descendants, so pages in different groups can share a path that
+ * can not be matched unambiguously.
+ */
+const divergeInGroups = (routeA: SegmentLayout[], routeB: SegmentLayout[]) => {
+  const index = routeA.findIndex((segment, index) => segment !== routeB[index]);
+  if (index <= 0 || !routeB[index]) return false;
+  if (!routeA[index].group && !routeB[index].group) return false;
+  const { forward } = routeA[index - 1];
+  const forwarderA = getForwarderConfig(forward, routeA.slice(index));
+  const forwarderB = getForwarderConfig(forward, routeB.slice(index));
+  return (
+    forwarderA?.type === forwarderB?.type &&
+    forwarderA?.name === forwarderB?.name
+  );
 };
 
 // this assumes that the first page in each collection is the same
-export const mergeLayouts = (pages: SegmentLayout[][]): MergedRoute => {
+export const mergeLayouts = (
+  pages: SegmentLayout[][],
+  diagnostics: Diagnostics
+): MergedRoute => {
   const [[currentPage]] = pages;
   const nextPages = pages.map(([, ...pages]) => pages);
   const hasLast = !!nextPages.find((pages) => pages.length === 0);
-  const nexts = nextPages.filter(filterNextRoutes(currentPage.forward));
-  const dynamicForwards = nextPages.filter(
-    filterDynamicForwardedRoutes(currentPage.forward)
-  );
-  const staticForwards = nextPages.filter(
-    filterStaticForwardedRoutes(currentPage.forward)
+  const nexts = nextPages.filter(
+    (pages) => !getForwarderConfig(currentPage.forward, pages)
   );
   if (hasLast && nexts.length > 1) {
-    throw new Error("1");
-  }
-  if (dynamicForwards.length && staticForwards.length)
-    throw new Error(
-      "Found both static and dynamic forwards in the same layout segment"
+    const locations = nexts
+      .filter((pages) => pages.length)
+      .map((pages) => pages[pages.length - 1].location);
+    diagnostics.report(
+      "AMBIGUOUS_ROUTE",
+      `${currentPage.location} and ${locations.join(
+        ", "
+      )} can not be distinguished while matching.`,
+      [currentPage.location, ...locations]
     );
+  }
   const next = hasLast
     ? currentPage
     : nexts.length
-    ? mergeLayouts(nexts)
-    : undefined;
-  const forward = dynamicForwards.length
-    ? ([
-        {
-          type: RouteTypes.DYNAMIC_FORWARD,
-          name: getDynamicForwardParam(dynamicForwards[0]),
-        },
-        mergeLayouts(dynamicForwards),
-      ] as const)
-    : staticForwards.length
-    ? ([
-        {
-          type: RouteTypes.STATIC_FORWARD,
-          name: getStaticForwardParam(staticForwards[0]),
-        },
-        mergeLayouts(staticForwards),
-      ] as const)
+    ? mergeLayouts(nexts, diagnostics)
     : undefined;
-  return [currentPage, next, forward];
+  const forwards = getForwarderConfigs(currentPage.forward)
+    .map((config) => {
+      const forwarded = nextPages.filter((pages) => {
+        const forwarder = getForwarderConfig(currentPage.forward, pages);
+        return (
+          forwarder?.type === config.type && forwarder.name === config.name
+        );
+      });
+      return forwarded.length
+        ? ([config, mergeLayouts(forwarded, diagnostics)] as const)
+        : undefined;
+    })
+    .filter((forward): forward is MergedForward => !!forward);
+  return [currentPage, next, forwards];
 };
@@ -0,0 +1,20 @@
+import { EjectedLocalePrefix } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import { SegmentLayout } from "../types";
+
+/**
+ * @returns The locale forwards of the segment and all of its descendants,
+ * ancestors first. Forwards below catch all segments are left out as the
+ * position of their locale in the path is not known.
+ */
+const getLocalePrefixes = (layout: SegmentLayout): EjectedLocalePrefix[] => [
+  ...(layout.externalPath.includes("*")
+    ? []
+    : layout.forward.locale.map((name) => ({
+        location: layout.location,
+        name,
+        externalPath: layout.externalPath,
+      }))),
+  ...Object.values(layout.children).flatMap(getLocalePrefixes),
+];
+
+export default getLocalePrefixes;
@@ -0,0 +1,133 @@
+import {
+  EjectedLocalePrefix,
+  RouterHooksConfig,
+} from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import { RouteTableEntry, SegmentLayout } from "../types";
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const escapeSegment = (segment: string) =>
+  segment.replace(/[:*+?(){}\\]/g, "\\$&");
+
+/**
+ * @returns A param name path-to-regexp accepts, falls back to the position
+ * of the segment for names with other characters
+ */
+const toParamName = (name: string, index: number) =>
+  /^\w+$/.test(name) ? name : `param${index}`;
+
+const toMatcherSegment = (segment: string, index: number) => {
+  if (segment.startsWith("*?"))
+    return `:${toParamName(segment.slice(2), index)}*`;
+  if (segment.startsWith("*"))
+    return `:${toParamName(segment.slice(1), index)}+`;
+  // next appends `(.json)?` to every matcher, an explicit pattern keeps it from
+  // becoming the pattern of a trailing param
+  if (segment.startsWith(":"))
+    return `:${toParamName(segment.slice(1), index)}([^/]+)`;
+  return escapeSegment(segment);
+};
+
+/**
+ * @returns The matcher of a single external path
+ * @param descendants Matches all paths below `externalPath` as well
+ */
+const toMatcher = (externalPath: string, descendants: boolean) =>
+  "/" +
+  [
+    ...externalPath.split("/").filter(Boolean).map(toMatcherSegment),
+    ...(descendants ? [":path*"] : []),
+  ].join("/");
+
+/**
+ * @returns The matcher that passes every request except next internals and
+ * the ignored prefixes to the middleware
+ */
+const getCatchAllMatcher = (ignoredPrefixes: string[]) =>
+  `/((?!${["_next", ...ignoredPrefixes.map((prefix) => prefix.slice(1))]
+    .map((prefix) => `${escapeRegex(prefix)}(?:/|$)`)
+    .join("|")}).*)`;
+
+/**
+ * @returns true if the middleware changes the outcome of the request, pages
+ * that are reached without a handler or rewrite are served by next directly
+ */
+const requiresMiddleware = (
+  { chain, internalPath, externalPath }: RouteTableEntry,
+  hooks: RouterHooksConfig
+) =>
+  chain.some(({ type }) => type !== "external" || hooks.external) ||
+  (internalPath !== undefined &&
+    (internalPath !== externalPath ||
+      (hooks.params && /\/[:*]/.test(internalPath))));
+
+/**
+ * @returns The matcher of everything below a segment with a not-found
+ * convention. A `not-found` page in the root is left out as next renders it
+ * for unmatched requests anyway.
+ */
+const toNotFoundMatcher = ({
+  externalPath,
+  internalPath,
+  notFoundMiddleware,
+}: SegmentLayout) =>
+  notFoundMiddleware || internalPath !== "/"
+    ? toMatcher(externalPath, true)
+    : undefined;
+
+const isIgnored = (externalPath: string, ignoredPrefixes: string[]) =>
+  ignoredPrefixes.some((prefix) => externalPath.startsWith(`${prefix}/`));
+
+/**
+ * @returns The `config.matcher` of the generated middleware. Only paths that
+ * are handled by the middleware, below a not-found or after segment or
+ * prefixed by a locale are listed, unless a `notFound` or `response` hook, an
+ * after handler in the root or the protected headers need to see every
+ * request.
+ */
+const getMatcher = (
+  entries: RouteTableEntry[],
+  notFoundSegments: SegmentLayout[],
+  afterSegments: SegmentLayout[],
+  localePrefixes: EjectedLocalePrefix[],
+  hooks: RouterHooksConfig,
+  ignoredPrefixes: string[],
+  protectedHeaders: string[]
+) => {
+  if (
+    hooks.notFound ||
+    hooks.response ||
+    protectedHeaders.length ||
+    afterSegments.some(({ externalPath }) => externalPath === "/")
+  )
+    // protected headers are removed from requests to ignored prefixes as well
+    return [getCatchAllMatcher(protectedHeaders.length ? [] : ignoredPrefixes)];
+  return [
+    ...new Set([
+      ...entries
+        .filter(
+          (entry) =>
+            requiresMiddleware(entry, hooks) &&
+            !isIgnored(entry.externalPath, ignoredPrefixes)
+        )
+        .map(({ externalPath, endpoint }) =>
+          toMatcher(externalPath, endpoint === "external")
+        ),
+      ...notFoundSegments
+        .filter(({ externalPath }) => !isIgnored(externalPath, ignoredPrefixes))
+        .map(toNotFoundMatcher)
+        .filter((matcher): matcher is string => !!matcher),
+      ...afterSegments
+        .filter(({ externalPath }) => !isIgnored(externalPath, ignoredPrefixes))
+        .map(({ externalPath }) => toMatcher(externalPath, true)),
+      ...localePrefixes
+        .filter(({ externalPath }) => !isIgnored(externalPath, ignoredPrefixes))
+        .map(({ externalPath, name }) =>
+          toMatcher(`${externalPath}:${name}/`, true)
+        ),
+    ]),
+  ].sort();
+};
+
+export default getMatcher;
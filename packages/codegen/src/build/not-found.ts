@@ -0,0 +1,154 @@
+import {
+  Branch,
+  BranchTypes,
+  EjectedNotFoundForward,
+  EjectedNotFoundSegment,
+} from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import { SegmentLayout } from "../types";
+import { Diagnostics } from "../util/diagnostics";
+import { getForwardSource } from "./layout";
+import { enterSegments, getEnteredSegments } from "./segment-handlers";
+
+/**
+ * @returns The segment and all of its parents, nearest first
+ */
+const getAncestors = (segment: SegmentLayout): SegmentLayout[] => [
+  segment,
+  ...(segment.parent ? getAncestors(segment.parent()) : []),
+];
+
+/**
+ * @returns A flat list of the segment and all of its descendants
+ */
+const getSegments = (layout: SegmentLayout): SegmentLayout[] => [
+  layout,
+  ...Object.values(layout.children).flatMap(getSegments),
+];
+
+/**
+ * @returns The forward that leads to `segment`, if the segment is reached
+ * through one. Route groups share the forwards of their parent and can declare
+ * forwards of their own, so the forward is declared by the nearest parent that
+ * forwards the segment, searching through route groups.
+ */
+const getForward = (
+  segment: SegmentLayout
+): EjectedNotFoundForward | undefined => {
+  if (!segment.parent) return undefined;
+  const isForwarded = ({ forward }: SegmentLayout) =>
+    segment.dynamic
+      ? forward.dynamic.includes(segment.dynamic)
+      : segment.staticForward && forward.static.includes(segment.segment);
+  let forwarder = segment.parent();
+  while (!isForwarded(forwarder) && forwarder.group && forwarder.parent)
+    forwarder = forwarder.parent();
+  if (!isForwarded(forwarder)) return undefined;
+  return {
+    type: segment.dynamic
+      ? getForwardSource(forwarder.forward, segment.dynamic)
+      : "static",
+    name: segment.dynamic || segment.segment,
+    location: forwarder.location,
+    internalPath: forwarder.internalPath,
+  };
+};
+
+/**
+ * @returns All forwards from the root to `segment`, root first
+ */
+export const getForwards = (segment: SegmentLayout) =>
+  getAncestors(segment)
+    .map(getForward)
+    .filter((forward): forward is EjectedNotFoundForward => !!forward)
+    .reverse();
+
+const getDepth = ({ location }: SegmentLayout) => location.split("/").length;
+
+const hasNotFound = (segment: SegmentLayout) =>
+  segment.notFound || segment.notFoundMiddleware;
+
+/**
+ * @param segments The deepest segments that matched the request
+ * @param resolveForwards true if the forwards leading to the segments did not
+ * run for the request yet
+ * @returns A not found branch that is handled by the nearest `not-found` page
+ * or `middleware.not-found` handler of the segments
+ */
+export const ejectNotFound = (
+  segments: SegmentLayout[],
+  resolveForwards: boolean
+): Branch => {
+  const seen = new Set<string>();
+  const candidates: EjectedNotFoundSegment[] = segments
+    .flatMap(getAncestors)
+    .filter(hasNotFound)
+    // deepest first, parents of multiple segments are only tried once
+    .sort((a, b) => getDepth(b) - getDepth(a))
+    .filter(({ location }) => !seen.has(location) && !!seen.add(location))
+    .map((segment) => ({
+      location: segment.location,
+      internalPath: segment.internalPath,
+      middleware: segment.notFoundMiddleware,
+      page: segment.notFound,
+      forwards: resolveForwards ? getForwards(segment) : [],
+    }));
+  return {
+    type: BranchTypes.NOT_FOUND,
+    segments: candidates,
+  };
+};
+
+/**
+ * @returns A function that resolves the not found branch for requests that
+ * matched the external path hash `path` but none of its children, enclosed by
+ * the error boundaries and after handlers of the matched segments. Segments
+ * behind a forward are left out as the request did not pass them yet.
+ */
+export const createNotFoundResolver = (layout: SegmentLayout) => {
+  const segments = getSegments(layout);
+  return (path: string) => {
+    const matched = segments.filter(({ hash }) => hash === path);
+    return enterSegments(
+      getEnteredSegments(matched, []).filter(
+        (segment) => !getForwards(segment).length
+      ),
+      ejectNotFound(matched, true)
+    );
+  };
+};
+
+/**
+ * @returns All segments with a `middleware.not-found` handler or a `not-found`
+ * page below `layout`
+ */
+export const getNotFoundSegments = (layout: SegmentLayout) =>
+  getSegments(layout).filter(hasNotFound);
+
+/**
+ * Reports all nested `not-found` pages without a page at the `notFound` path of
+ * their segment. Next only renders them if that page calls `notFound()`, the
+ * rewrite falls back to the root `not-found` page otherwise.
+ */
+export const validateNotFoundPages = (
+  layout: SegmentLayout,
+  notFound: string,
+  diagnostics: Diagnostics
+) => {
+  const segments = getSegments(layout);
+  segments
+    .filter((segment) => segment.notFound && segment !== layout)
+    .forEach((segment) => {
+      const path = segment.internalPath + notFound.slice(1);
+      const internalPath = path.endsWith("/") ? path : `${path}/`;
+      if (
+        !segments.some(
+          (page) => page.page && page.internalPath === internalPath
+        )
+      )
+        diagnostics.report(
+          "MISSING_NOT_FOUND_PAGE",
+          `${segment.location} has a not-found page but there is no page at ${internalPath} to render it.`,
+          [segment.location]
+        );
+    });
+};
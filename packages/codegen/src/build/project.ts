@@ -0,0 +1,268 @@
+import type { HttpMethod } from "@cxnpl/next-app-middleware-runtime";
+import fse from "fs-extra";
+import { dirname, extname, join, relative, resolve } from "path";
+import { Diagnostics } from "../util/diagnostics";
+import { loadConfig, validateConfig } from "./config";
+import {
+  createFileConventions,
+  defaultPageExtensions,
+  FileConventions,
+} from "./regex";
+
+const { stat } = fse;
+
+export type MiddlewareOptions = {
+  /**
+   * Root of the next project, defaults to the current working directory
+   */
+  rootDir?: string;
+  /**
+   * App directory relative to `rootDir`, defaults to `app` or `src/app`
+   */
+  appDir?: string;
+  /**
+   * Generated middleware relative to `rootDir`, defaults to `middleware` next
+   * to the app directory. The extension is detected if not provided.
+   */
+  outFile?: string;
+  /**
+   * `pageExtensions` of the next config
+   */
+  pageExtensions?: string[];
+  /**
+   * Path prefixes that bypass the middleware entirely, defaults to `["/api"]`
+   * for the API routes of the pages directory
+   */
+  ignoredPrefixes?: string[];
+  /**
+   * Route handlers that bypass the middleware, written as their route in the
+   * app directory without route groups and slots (e.g.
+   * `/webhooks/[provider]`). Defaults to `[]`.
+   */
+  skipMiddleware?: string[];
+  /**
+   * Hooks file relative to `rootDir`, defaults to `middleware.hooks` next to
+   * the generated middleware
+   */
+  hooksFile?: string;
+  /**
+   * Directory relative to `rootDir` whose files bypass the middleware,
+   * defaults to `public`. `false` passes requests for public files to the
+   * middleware as well.
+   */
+  publicDir?: string | false;
+  /**
+   * Methods handled by default exports of `middleware.{ts,js}` files that do
+   * not export `methods`, defaults to `"*"`
+   */
+  methods?: HttpMethod[] | "*";
+  /**
+   * Language of the generated files, detected from `outFile` or
+   * `tsconfig.json` if not provided
+   */
+  language?: "typescript" | "javascript";
+  /**
+   * Formats the generated files with prettier, defaults to `true`
+   */
+  format?: boolean;
+  /**
+   * Path unmatched requests are rewritten to, relative to the nearest segment
+   * with a `not-found` page. Defaults to `/404`.
+   */
+  notFound?: string;
+  /**
+   * Request headers only middleware can set for pages and route handlers,
+   * they are removed from incoming requests. Entries ending in `*` match every
+   * header starting with them. Defaults to `[]`.
+   */
+  protectedHeaders?: string[];
+  /**
+   * Reports warnings as errors, defaults to `false`
+   */
+  strict?: boolean;
+};
+
+/**
+ * Default export of `middleware.config.{ts,js}` in the project root
+ */
+export type MiddlewareConfig = Omit<MiddlewareOptions, "rootDir">;
+
+export type Project = {
+  /**
+   * Absolute path of the next project
+   */
+  rootDir: string;
+  /**
+   * App directory relative to `rootDir`
+   */
+  appDir: string;
+  /**
+   * Absolute path of the generated middleware
+   */
+  outFile: string;
+  /**
+   * Absolute path of the directory the generated files are written to
+   */
+  outDir: string;
+  typescript: boolean;
+  conventions: FileConventions;
+  /**
+   * Normalized prefixes that bypass the middleware, with a leading and without
+   * a trailing slash
+   */
+  ignoredPrefixes: string[];
+  /**
+   * Normalized routes of the route handlers that bypass the middleware, with a
+   * leading and without a trailing slash
+   */
+  skipMiddleware: string[];
+  /**
+   * Absolute path of the configured hooks file
+   */
+  hooksFile?: string;
+  /**
+   * Public directory relative to `rootDir`
+   */
+  publicDir: string | false;
+  methods: HttpMethod[] | "*";
+  format: boolean;
+  notFound: string;
+  /**
+   * Lowercase names of the protected request headers
+   */
+  protectedHeaders: string[];
+  strict: boolean;
+};
+
+const isDirectory = async (path: string) => {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * @returns true if tsconfig.json exists in `rootDir`
+ */
+const isTypescript = async (rootDir: string) => {
+  try {
+    const stats = await stat(join(rootDir, "tsconfig.json"));
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * @returns The app directory relative to `rootDir`, prefers `app` over
+ * `src/app` like next does
+ */
+const detectAppDir = async (rootDir: string) => {
+  if (await isDirectory(join(rootDir, "app"))) return "app";
+  if (await isDirectory(join(rootDir, "src/app"))) return "src/app";
+  return "app";
+};
+
+const scriptExtensionRegex = /\.(m?[jt]sx?)$/;
+
+/**
+ * @returns The extension of the generated middleware, next only picks it up
+ * if it is one of `pageExtensions`
+ */
+const getOutputExtension = (pageExtensions: string[], typescript: boolean) => {
+  const candidates = typescript ? ["ts", "tsx", "mts"] : ["js", "jsx", "mjs"];
+  return (
+    candidates.find((candidate) => pageExtensions.includes(candidate)) ||
+    pageExtensions.find((ext) =>
+      candidates.some((candidate) => ext.endsWith(`.${candidate}`))
+    ) ||
+    candidates[0]
+  );
+};
+
+/**
+ * @returns The prefix with a leading and without a trailing slash, `/` and
+ * empty prefixes are dropped since they would bypass every request
+ */
+const normalizePrefix = (prefix: string) =>
+  `/${prefix.split("/").filter(Boolean).join("/")}`;
+
+/**
+ * @returns All paths and file conventions used to collect the app directory
+ * and write the output. Options override `middleware.config.{ts,js}`.
+ * @throws `DiagnosticsError` if the options or the config file are invalid
+ */
+export const resolveProject = async ({
+  rootDir = ".",
+  ...options
+}: MiddlewareOptions = {}): Promise<Project> => {
+  const root = resolve(process.cwd(), rootDir);
+  const diagnostics = new Diagnostics();
+  const {
+    appDir,
+    outFile,
+    pageExtensions = defaultPageExtensions,
+    ignoredPrefixes = ["/api"],
+    skipMiddleware = [],
+    hooksFile,
+    publicDir = "public",
+    methods = "*",
+    language,
+    format = true,
+    notFound = "/404",
+    protectedHeaders = [],
+    strict = false,
+  } = {
+    ...(await loadConfig(root, diagnostics)),
+    ...validateConfig(options, "options", diagnostics),
+  };
+  diagnostics.throwIfErrors();
+  const app = relative(
+    root,
+    resolve(root, appDir === undefined ? await detectAppDir(root) : appDir)
+  );
+  const out = resolve(root, outFile || join(dirname(app), "middleware"));
+  const extension = scriptExtensionRegex.exec(extname(out))?.[1];
+  const typescript = extension
+    ? extension.includes("t")
+    : language
+    ? language === "typescript"
+    : await isTypescript(root);
+  return {
+    rootDir: root,
+    appDir: app,
+    outFile: extension
+      ? out
+      : `${out}.${getOutputExtension(pageExtensions, typescript)}`,
+    outDir: dirname(out),
+    typescript,
+    conventions: createFileConventions(pageExtensions),
+    ignoredPrefixes: [
+      ...new Set(
+        ignoredPrefixes.map(normalizePrefix).filter((prefix) => prefix !== "/")
+      ),
+    ],
+    skipMiddleware: [...new Set(skipMiddleware.map(normalizePrefix))],
+    hooksFile: hooksFile && resolve(root, hooksFile),
+    publicDir:
+      publicDir === false ? false : relative(root, resolve(root, publicDir)),
+    methods,
+    format,
+    notFound,
+    protectedHeaders: [
+      ...new Set(protectedHeaders.map((header) => header.toLowerCase())),
+    ],
+    strict,
+  };
+};
+
+/**
+ * @returns The path of `to` relative to the generated middleware, always
+ * starting with `.` so it can be used as an import path
+ */
+export const getImportPath = ({ outDir }: Project, to: string) => {
+  const path = relative(outDir, to);
+  if (path === "") return ".";
+  return path === ".." || path.startsWith("../") ? path : `./${path}`;
+};
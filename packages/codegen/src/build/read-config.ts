@@ -1,10 +1,15 @@
 import { RouterHooksConfig } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import fse from "fs-extra";
 import _glob from "glob";
+import { join } from "path";
 import { promisify } from "util";
-import logger from "../util/log";
+import { Diagnostics } from "../util/diagnostics";
 import collectModuleExports from "./collect-exports";
+import { Project } from "./project";
+import { toExtensionGlob } from "./regex";
 
 const glob = promisify(_glob);
+const { pathExists } = fse;
 
 const defaultHooksConfig: RouterHooksConfig = {
   notFound: false,
@@ -15,28 +20,55 @@ const defaultHooksConfig: RouterHooksConfig = {
   response: false,
   error: false,
   external: false,
+  experiment: false,
 };
 
 /**
- * @returns `RouterHooksConfig` object with `true` for each hook that is used,
- * parsed from `middleware.hooks.ts` or `middleware.hooks.js`
+ * @returns The absolute path of the hooks file, either the configured one or
+ * `middleware.hooks.{ts,js}` next to the generated middleware
  */
-const readHooksConfig = async () => {
-  const matches = await glob("./middleware.hooks.{ts,js}");
-  if (matches.length === 0)
-    return {
-      ...defaultHooksConfig,
-    };
+const findHooksFile = async (
+  { outDir, conventions, hooksFile }: Project,
+  diagnostics: Diagnostics
+) => {
+  if (hooksFile) {
+    if (await pathExists(hooksFile)) return hooksFile;
+    diagnostics.report(
+      "INVALID_CONFIG",
+      `hooks file ${hooksFile} does not exist`,
+      [hooksFile]
+    );
+    return undefined;
+  }
+  const matches = await glob(
+    `./middleware.hooks.${toExtensionGlob(conventions.extensions.module)}`,
+    { cwd: outDir }
+  );
   if (matches.length > 1)
-    logger.warn("Multiple middleware configs found, using:", matches[0]);
-  const exports = await collectModuleExports(matches[0]);
+    diagnostics.report(
+      "MULTIPLE_HOOKS",
+      `Multiple middleware configs found, using: ${matches[0]}`,
+      matches
+    );
+  return matches.length ? join(outDir, matches[0]) : undefined;
+};
+
+/**
+ * @returns `RouterHooksConfig` object with `true` for each hook that is used
+ * and the absolute path of the hooks file they are exported from
+ */
+const readHooksConfig = async (project: Project, diagnostics: Diagnostics) => {
   const config = {
     ...defaultHooksConfig,
   };
+  const file = await findHooksFile(project, diagnostics);
+  if (!file) return { config, file };
+  const exports = await collectModuleExports(file);
   exports.forEach((key) => {
-    if (Object.hasOwn(config, key)) config[key as keyof typeof config] = true;
+    if (Object.prototype.hasOwnProperty.call(config, key))
+      config[key as keyof typeof config] = true;
   });
-  return config;
+  return { config, file };
 };
 
 export default readHooksConfig;
@@ -1,15 +1,47 @@
-export const dynamicSegmentRegex = /\[((?!\.\.\.).*)\]/;
+export const dynamicSegmentRegex = /^\[((?!\.\.\.)[^[]*)\]$/;
 export const isDynamicSegment = (segment: string) =>
   dynamicSegmentRegex.test(segment);
 
-export const catchAllSegmentRegex = /\[\.\.\.(.*)\]/;
+export const catchAllSegmentRegex = /^\[\.\.\.(.*)\]$/;
 export const isCatchAllSegment = (segment: string) =>
   catchAllSegmentRegex.test(segment);
 
-export const routeGroupSegmentRegex = /\((.*)\)/;
+export const optionalCatchAllSegmentRegex = /^\[\[\.\.\.(.*)\]\]$/;
+export const isOptionalCatchAllSegment = (segment: string) =>
+  optionalCatchAllSegmentRegex.test(segment);
+
+/**
+ * @returns The segment of an internal or external path as it is used in path
+ * hashes, params are replaced by `:`, `*` or `*?` for optional catch alls
+ */
+export const toHashSegment = (segment: string) =>
+  segment.startsWith(":")
+    ? ":"
+    : segment.startsWith("*?")
+    ? "*?"
+    : segment.startsWith("*")
+    ? "*"
+    : segment;
+
+export const routeGroupSegmentRegex = /^\((.*)\)$/;
 export const isRouteGroupSegment = (segment: string) =>
   routeGroupSegmentRegex.test(segment);
 
+export const slotSegmentRegex = /^@(.*)$/;
+export const isSlotSegment = (segment: string) =>
+  slotSegmentRegex.test(segment);
+
+export const interceptingSegmentRegex = /^(?:\(\.{1,3}\))+(.*)$/;
+export const isInterceptingSegment = (segment: string) =>
+  interceptingSegmentRegex.test(segment);
+
+/**
+ * @returns true for route groups and parallel route slots, neither of them
+ * contribute to the url
+ */
+export const isPathlessSegment = (segment: string) =>
+  isRouteGroupSegment(segment) || isSlotSegment(segment);
+
 export const makeFind = (regex: RegExp) => (filesAndFolders: string[]) =>
   filesAndFolders.find((fileOrfolder) => regex.test(fileOrfolder));
 
@@ -18,34 +50,75 @@ const make = (regex: RegExp) => ({
   find: makeFind(regex),
 });
 
-export const { regex: middlewareRegex, find: findMiddleware } = make(
-  /^(middleware\.(?:t|j)s)$/
-);
+/**
+ * Next's default `pageExtensions`
+ */
+export const defaultPageExtensions = ["tsx", "ts", "jsx", "js"];
 
-export const { regex: pageRegex, find: findPage } = make(
-  /^(page\.(?:tsx|jsx?))$/
-);
+/**
+ * Extensions that can be imported from the generated middleware without
+ * specifying them
+ */
+const scriptExtensions = ["ts", "tsx", "js", "jsx", "mjs"];
 
-export const { regex: routeRegex, find: findRoute } = make(
-  /^(route\.(?:ts|js?))$/
-);
+const markdownExtensions = ["md", "mdx"];
 
-export const { regex: externalRegex, find: findExternal } = make(
-  /^(external\.(?:t|j)s)$/
-);
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
-export const { regex: dynamicForwardRegex, find: findDynamicForward } = make(
-  /^(forward\.dynamic\.(?:t|j)s)$/
-);
+const makeConvention = (name: string, extensions: string[]) =>
+  make(
+    new RegExp(
+      `^(${escapeRegex(name)}\\.(?:${extensions.map(escapeRegex).join("|")}))$`
+    )
+  );
 
-export const { regex: staticForwardRegex, find: findStaticForward } = make(
-  /^(forward\.static\.(?:t|j)s)$/
-);
+/**
+ * @returns A glob matching any of the extensions
+ */
+export const toExtensionGlob = (extensions: string[]) =>
+  extensions.length === 1 ? extensions[0] : `{${extensions.join(",")}}`;
 
-export const { regex: rewriteRegex, find: findRewrite } = make(
-  /^(rewrite\.(?:t|j)s)$/
-);
+/**
+ * @param pageExtensions `pageExtensions` of the next config
+ * @returns The extensions of all file conventions and a matcher for each of
+ * them. Pages and routes are discovered by next so they follow
+ * `pageExtensions`, all other files are imported by the middleware.
+ */
+export const createFileConventions = (pageExtensions: string[]) => {
+  const extensions = {
+    page: pageExtensions,
+    route: pageExtensions.filter((ext) => !markdownExtensions.includes(ext)),
+    module: Array.from(
+      new Set([
+        ...scriptExtensions,
+        ...pageExtensions.filter(
+          (ext) => !ext.includes(".") && !markdownExtensions.includes(ext)
+        ),
+      ])
+    ),
+  };
+  return {
+    extensions,
+    page: makeConvention("page", extensions.page),
+    route: makeConvention("route", extensions.route),
+    notFound: makeConvention("not-found", extensions.page),
+    middleware: makeConvention("middleware", extensions.module),
+    notFoundMiddleware: makeConvention(
+      "middleware.not-found",
+      extensions.module
+    ),
+    errorMiddleware: makeConvention("middleware.error", extensions.module),
+    afterMiddleware: makeConvention("middleware.after", extensions.module),
+    external: makeConvention("external", extensions.module),
+    dynamicForward: makeConvention("forward.dynamic", extensions.module),
+    staticForward: makeConvention("forward.static", extensions.module),
+    hostForward: makeConvention("forward.host", extensions.module),
+    localeForward: makeConvention("forward.locale", extensions.module),
+    experimentForward: makeConvention("forward.experiment", extensions.module),
+    rewrite: makeConvention("rewrite", extensions.module),
+    redirect: makeConvention("redirect", extensions.module),
+  };
+};
 
-export const { regex: redirectRegex, find: findRedirect } = make(
-  /^(redirect\.(?:t|j)s)$/
-);
+export type FileConventions = ReturnType<typeof createFileConventions>;
@@ -18,46 +18,80 @@ export const getRoute = (page: SegmentLayout): SegmentLayout[] => {
   return result.reverse();
 };
 
+const flattenNext = (next: MergedRoute[1]) =>
+  next instanceof Array ? flattenMergedRoute(next) : next;
+
 /**
- * TODO, comment this in the future
+ * @returns The merged route as a chain of handlers. The middleware of a
+ * segment runs before its forwards, which are tried one after another before
+ * routing continues in the segment itself.
  */
-export const flattenMergedRoute = ([current, next, forward]: MergedRoute):
-  | FlattenedRoute
-  | SegmentLayout
-  | undefined => {
-  if (current.middleware) {
-    if (forward && !current.group) {
-      const flattenedRoute: FlattenedRoute = [
-        current,
-        { type: RouteTypes.MIDDLEWARE },
-        flattenMergedRoute([{ ...current, middleware: false }, next, forward]),
-      ];
-      return flattenedRoute;
-    } else {
-      const flattenedRoute: FlattenedRoute = [
-        current,
-        { type: RouteTypes.MIDDLEWARE },
-        next instanceof Array ? flattenMergedRoute(next) : next && next,
-      ];
-      return flattenedRoute;
-    }
-  } else if (forward) {
-    if (!current.group) {
-      const [type, forwardLayout] = forward;
-      const flattenedRoute: FlattenedRoute = [
-        current,
-        type,
-        next instanceof Array ? flattenMergedRoute(next) : next,
-        flattenMergedRoute(forwardLayout),
-      ];
-      return flattenedRoute;
-    } else {
-      return flattenMergedRoute(forward[1]);
-    }
-  } else {
-    if (next instanceof Array) return flattenMergedRoute(next);
-    return next;
-  }
+export const flattenMergedRoute = ([
+  current,
+  next,
+  forwards = [],
+]: MergedRoute): FlattenedRoute | SegmentLayout | undefined => {
+  if (current.middleware)
+    return [
+      current,
+      { type: RouteTypes.MIDDLEWARE },
+      flattenMergedRoute([{ ...current, middleware: false }, next, forwards]),
+    ];
+  if (!forwards.length) return flattenNext(next);
+  const [[config, forwardLayout], ...rest] = forwards;
+  return [
+    current,
+    config,
+    rest.length ? flattenMergedRoute([current, next, rest]) : flattenNext(next),
+    flattenMergedRoute(forwardLayout),
+  ];
+};
+
+/**
+ * @returns All pages and route handlers the route can lead to
+ */
+const getEndpoints = (
+  route: FlattenedRoute | SegmentLayout | undefined
+): SegmentLayout[] =>
+  route instanceof Array
+    ? route[1].type === RouteTypes.NEXT
+      ? [route[0]]
+      : [...getEndpoints(route[2]), ...getEndpoints(route[3])]
+    : route
+    ? [route]
+    : [];
+
+/**
+ * @returns true if the route only leads to route handlers listed in the
+ * `skipMiddleware` option
+ */
+export const isSkippedRoute = (
+  route: FlattenedRoute | SegmentLayout | undefined
+) => {
+  const endpoints = getEndpoints(route);
+  return (
+    endpoints.length > 0 &&
+    endpoints.every(({ skipMiddleware }) => skipMiddleware)
+  );
+};
+
+/**
+ * @returns The route without the middleware in front of skipped route
+ * handlers, their forwards still lead the request to the handler
+ */
+export const withoutSkippedMiddleware = (
+  route: FlattenedRoute | SegmentLayout | undefined
+): FlattenedRoute | SegmentLayout | undefined => {
+  if (!(route instanceof Array)) return route;
+  const [current, config, next, forward] = route;
+  if (config.type === RouteTypes.MIDDLEWARE && isSkippedRoute(route))
+    return withoutSkippedMiddleware(next);
+  return [
+    current,
+    config,
+    withoutSkippedMiddleware(next),
+    withoutSkippedMiddleware(forward),
+  ];
 };
 
 export type OnSegment<T = never> = (
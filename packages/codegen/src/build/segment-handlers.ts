@@ -0,0 +1,73 @@
+import {
+  Branch,
+  BranchTypes,
+} from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import { SegmentLayout } from "../types";
+
+/**
+ * @returns A flat list of the segment and all of its descendants
+ */
+const getSegments = (layout: SegmentLayout): SegmentLayout[] => [
+  layout,
+  ...Object.values(layout.children).flatMap(getSegments),
+];
+
+const getDepth = ({ location }: SegmentLayout) => location.split("/").length;
+
+/**
+ * @param entered Locations of the segments the branch already entered
+ * @returns The segments and all of their parents that are not entered yet,
+ * outermost first
+ */
+export const getEnteredSegments = (
+  segments: SegmentLayout[],
+  entered: string[]
+) => {
+  const seen = new Set(entered);
+  const result: SegmentLayout[] = [];
+  for (const segment of segments) {
+    let current: SegmentLayout | undefined = segment;
+    while (current) {
+      if (!seen.has(current.location)) {
+        seen.add(current.location);
+        result.push(current);
+      }
+      current = current.parent?.();
+    }
+  }
+  return result.sort((a, b) => getDepth(a) - getDepth(b));
+};
+
+/**
+ * @returns `then` enclosed by the `middleware.error` boundary and preceded by
+ * the registration of the `middleware.after` handler of each entered segment.
+ * Errors are passed to the innermost boundary first, after handlers run
+ * innermost first.
+ */
+export const enterSegments = (segments: SegmentLayout[], then: Branch) =>
+  segments.reduceRight<Branch>((branch, segment) => {
+    const { location, internalPath } = segment;
+    const enclosed: Branch = segment.errorMiddleware
+      ? {
+          type: BranchTypes.ERROR_BOUNDARY,
+          location,
+          internalPath,
+          then: branch,
+        }
+      : branch;
+    return segment.afterMiddleware
+      ? { type: BranchTypes.AFTER, location, internalPath, then: enclosed }
+      : enclosed;
+  }, then);
+
+/**
+ * @returns All segments with a `middleware.error` handler below `layout`
+ */
+export const getErrorSegments = (layout: SegmentLayout) =>
+  getSegments(layout).filter(({ errorMiddleware }) => errorMiddleware);
+
+/**
+ * @returns All segments with a `middleware.after` handler below `layout`
+ */
+export const getAfterSegments = (layout: SegmentLayout) =>
+  getSegments(layout).filter(({ afterMiddleware }) => afterMiddleware);
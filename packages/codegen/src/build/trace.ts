@@ -0,0 +1,108 @@
+import {
+  Branch,
+  BranchTypes,
+} from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+
+/**
+ * @returns A short human readable description of a single branch
+ */
+const describeBranch = (branch: Branch): string => {
+  const type = BranchTypes[branch.type];
+  switch (branch.type) {
+    case BranchTypes.MIDDLEWARE:
+    case BranchTypes.REWRITE:
+    case BranchTypes.REDIRECT:
+    case BranchTypes.ERROR_BOUNDARY:
+    case BranchTypes.AFTER: {
+      return `${type} ${branch.location}`;
+    }
+    case BranchTypes.DYNAMIC_FORWARD:
+    case BranchTypes.STATIC_FORWARD: {
+      return `${type} ${branch.name} ${branch.location}`;
+    }
+    case BranchTypes.SWITCH: {
+      return `${type} segments[${branch.index}]`;
+    }
+    case BranchTypes.DYNAMIC: {
+      return `${type} ${branch.name} = segments[${branch.index}]`;
+    }
+    case BranchTypes.CATCH_ALL: {
+      return `${type} ${branch.name} = segments.slice(${branch.index}, -1)`;
+    }
+    case BranchTypes.NEXT: {
+      return `${type} ${branch.internalPath}`;
+    }
+    case BranchTypes.TRACE: {
+      return branch.label;
+    }
+    default: {
+      return type;
+    }
+  }
+};
+
+const traceChild = (branch?: Branch) => branch && traceBranch(branch);
+
+/**
+ * Wraps every branch of the tree in a `TRACE` branch, the rendered router will
+ * call `__middleware_trace` with the description of each branch it visits.
+ */
+const traceBranch = (branch: Branch): Branch => {
+  let traced: Branch;
+  switch (branch.type) {
+    case BranchTypes.MIDDLEWARE: {
+      traced = {
+        ...branch,
+        then: traceBranch(branch.then),
+        notFound: traceBranch(branch.notFound),
+      };
+      break;
+    }
+    case BranchTypes.DYNAMIC:
+    case BranchTypes.CATCH_ALL:
+    case BranchTypes.ERROR_BOUNDARY:
+    case BranchTypes.AFTER: {
+      traced = { ...branch, then: traceBranch(branch.then) };
+      break;
+    }
+    case BranchTypes.DYNAMIC_FORWARD:
+    case BranchTypes.STATIC_FORWARD: {
+      traced = {
+        ...branch,
+        then: traceChild(branch.then),
+        forward: traceChild(branch.forward),
+      };
+      break;
+    }
+    case BranchTypes.SWITCH: {
+      traced = {
+        ...branch,
+        cases: branch.cases.map(({ match, then }) => ({
+          match,
+          then: traceBranch(then),
+        })),
+        defaultCase: traceBranch(branch.defaultCase),
+        catchAll: traceChild(branch.catchAll),
+      };
+      break;
+    }
+    case BranchTypes.REWRITE:
+    case BranchTypes.REDIRECT: {
+      traced = { ...branch, fallback: traceChild(branch.fallback) };
+      break;
+    }
+    case BranchTypes.TRACE: {
+      return branch;
+    }
+    default: {
+      traced = branch;
+    }
+  }
+  return {
+    type: BranchTypes.TRACE,
+    label: describeBranch(branch),
+    then: traced,
+  };
+};
+
+export default traceBranch;
@@ -0,0 +1,63 @@
+import fse from "fs-extra";
+import { relative } from "path";
+import { generate } from "./build";
+import { MiddlewareOptions, resolveProject } from "./build/project";
+import {
+  createDiagnostic,
+  Diagnostics,
+  DiagnosticsError,
+  logDiagnostics,
+  logError,
+} from "./util/diagnostics";
+import logger from "./util/log";
+
+const { readFile } = fse;
+
+export type CheckOptions = MiddlewareOptions & {
+  json?: boolean;
+};
+
+/**
+ * Runs the full middleware generation without writing the output. Exits with
+ * a non-zero code if the app directory contains an invalid configuration or
+ * if the existing output differs from what would be generated.
+ */
+const check = async ({ json = false, ...options }: CheckOptions = {}) => {
+  const start = Date.now();
+  const diagnostics = new Diagnostics();
+  const collectDiagnostics = (e: unknown) => {
+    if (!(e instanceof DiagnosticsError)) throw e;
+    diagnostics.add(...e.diagnostics);
+  };
+  try {
+    const generated = await generate(await resolveProject(options)).catch(
+      collectDiagnostics
+    );
+    if (generated) {
+      diagnostics.add(...generated.diagnostics);
+      for (const { path: outputPath, code: expected } of generated.files) {
+        const existing = await readFile(outputPath, {
+          encoding: "utf8",
+        }).catch(() => undefined);
+        if (existing !== undefined && existing !== expected)
+          diagnostics.add(
+            createDiagnostic(
+              "STALE_OUTPUT",
+              `${relative(process.cwd(), outputPath)} is out of date.`,
+              [outputPath]
+            )
+          );
+      }
+    }
+  } catch (e) {
+    logError("error while checking middleware:", e);
+    process.exit(1);
+  }
+  if (json) console.log(JSON.stringify(diagnostics.items, null, 2));
+  else logDiagnostics(diagnostics.items);
+  if (diagnostics.hasErrors) process.exit(1);
+  if (!json) logger.success(`checked middleware in ${Date.now() - start}ms`);
+  return diagnostics.items;
+};
+
+export default check;
@@ -1,12 +1,17 @@
+import { join, relative } from "path";
 import { build } from "./build";
+import { MiddlewareOptions, Project, resolveProject } from "./build/project";
+import { toExtensionGlob } from "./build/regex";
 import CancelToken from "./util/CancelToken";
+import { logDiagnostics, logError } from "./util/diagnostics";
 import logger from "./util/log";
 import watchAll from "./util/watch";
 
-const buildWithCatch = async (token?: CancelToken) => {
+const buildWithCatch = async (project: Project, token?: CancelToken) => {
   try {
     const start = Date.now();
-    const { cancelled, rewrites } = await build(token);
+    const { cancelled, rewrites, diagnostics } = await build(project, token);
+    if (diagnostics) logDiagnostics(diagnostics);
     if (!cancelled)
       logger.event(
         `generated middleware in ${
@@ -15,45 +20,91 @@ const buildWithCatch = async (token?: CancelToken) => {
       );
     return rewrites || [];
   } catch (e) {
-    logger.error("error while generating middleware:", e);
+    logError("error while generating middleware:", e);
     return [];
   }
 };
 
-const watchConfig = {
-  "add unlink": [
-    "app/**/external.{ts,js}",
-    "app/**/middleware.{ts,js}",
-    "app/**/page.{tsx,js,jsx}",
-    "app/**/route.{ts,js}",
-    "app/**/redirect.{ts,js}",
-    "public/**/*",
-    "app/favicon.ico",
-  ],
-  "add unlink change": [
-    "app/**/forward.dynamic.{ts,js}",
-    "app/**/forward.static.{ts,js}",
-    "./middleware.hooks.{ts,js}",
-  ],
+/**
+ * @returns Globs relative to the project root of all files that require a
+ * rebuild when they change
+ */
+const getWatchConfig = ({
+  appDir,
+  rootDir,
+  outDir,
+  conventions,
+  hooksFile,
+  publicDir,
+}: Project) => {
+  const page = toExtensionGlob(conventions.extensions.page);
+  const route = toExtensionGlob(conventions.extensions.route);
+  const script = toExtensionGlob(conventions.extensions.module);
+  return {
+    "add unlink": [
+      `${appDir}/**/external.${script}`,
+      `${appDir}/**/page.${page}`,
+      `${appDir}/**/route.${route}`,
+      `${appDir}/**/not-found.${page}`,
+      `${appDir}/**/middleware.not-found.${script}`,
+      `${appDir}/**/middleware.error.${script}`,
+      `${appDir}/**/middleware.after.${script}`,
+      `${appDir}/**/redirect.${script}`,
+      `${appDir}/**/rewrite.${script}`,
+      ...(publicDir === false ? [] : [`${publicDir}/**/*`]),
+      `${appDir}/favicon.ico`,
+    ],
+    "add unlink change": [
+      `${appDir}/**/middleware.${script}`,
+      `${appDir}/**/forward.dynamic.${script}`,
+      `${appDir}/**/forward.static.${script}`,
+      `${appDir}/**/forward.host.${script}`,
+      `${appDir}/**/forward.locale.${script}`,
+      `${appDir}/**/forward.experiment.${script}`,
+      hooksFile
+        ? relative(rootDir, hooksFile)
+        : join(relative(rootDir, outDir), `middleware.hooks.${script}`),
+    ],
+  };
 };
 
-const dev = async () => {
+const dev = async (options?: MiddlewareOptions) => {
+  const project = await resolveProject(options);
   let cancelToken: CancelToken = new CancelToken();
-  let buildPromise = buildWithCatch(cancelToken);
+  let buildPromise = buildWithCatch(project, cancelToken);
   const rewrites = await buildPromise;
   const runBuild = async (type: string, file: string) => {
     logger.info(`${type} ${file}, rebuilding...`);
     cancelToken.cancel();
     await buildPromise;
     cancelToken = new CancelToken();
-    buildPromise = buildWithCatch(cancelToken);
+    buildPromise = buildWithCatch(project, cancelToken);
   };
-  watchAll(watchConfig, runBuild);
-  watchAll({ "add unlink change": ["app/**/external.{ts,js}"] }, () => {
-    logger.warn(
-      "detected change in external config... restart may be required to apply changes"
-    );
-  });
+  watchAll(getWatchConfig(project), runBuild, project.rootDir);
+  watchAll(
+    {
+      "add unlink change": [
+        `${project.appDir}/**/external.${toExtensionGlob(
+          project.conventions.extensions.module
+        )}`,
+      ],
+    },
+    () => {
+      logger.warn(
+        "detected change in external config... restart may be required to apply changes"
+      );
+    },
+    project.rootDir
+  );
+  watchAll(
+    { "add unlink change": ["middleware.config.{ts,js}"] },
+    () => {
+      logger.warn(
+        "detected change in middleware.config... restart required to apply changes"
+      );
+    },
+    project.rootDir
+  );
   return rewrites;
 };
 
@@ -1,2 +1,7 @@
 export { default as dev } from "./dev";
 export { default as prod } from "./prod";
+export { default as routes } from "./routes";
+export { default as match } from "./match";
+export { default as check } from "./check";
+export type { Diagnostic } from "./util/diagnostics";
+export type { MiddlewareConfig, MiddlewareOptions } from "./build/project";
@@ -0,0 +1,299 @@
+import { renderRouter } from "@cxnpl/next-app-middleware-runtime/dist/router/ejected";
+import { transform } from "@swc/core";
+import { relative } from "path";
+import { ejectRouter } from "./build";
+import { MiddlewareOptions, resolveProject } from "./build/project";
+import traceBranch from "./build/trace";
+import createModuleLoader, { OnModuleLoad } from "./util/load-module";
+import { Diagnostics, logDiagnostics, logError } from "./util/diagnostics";
+import { executeScript } from "./util/run-script";
+
+export type MatchOptions = MiddlewareOptions & {
+  path: string;
+  method?: string;
+  cookies?: Record<string, string>;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: string;
+  json?: boolean;
+};
+
+export type MatchTraceEvent =
+  | { type: "branch"; label: string }
+  | {
+      type: "handler";
+      location: string;
+      name: string;
+      params?: unknown;
+      result?: string;
+      error?: string;
+    }
+  | { type: "rejection"; error: string };
+
+export type MatchResponse =
+  | { type: "none" }
+  | {
+      type: "next";
+      status: number;
+      headers: Record<string, string>;
+      requestHeaders?: Record<string, string>;
+    }
+  | {
+      type: "rewrite" | "redirect";
+      status: number;
+      destination: string;
+      headers: Record<string, string>;
+      requestHeaders?: Record<string, string>;
+    }
+  | {
+      type: "json" | "response";
+      status: number;
+      body: string;
+      headers: Record<string, string>;
+    };
+
+type RouterModule = {
+  middleware: (
+    request: Request,
+    event: { waitUntil: (promise: Promise<unknown>) => void }
+  ) => Promise<Response | void>;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "void";
+  if (value instanceof Response) return `Response(${value.status})`;
+  if (value instanceof URL) return value.href;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const formatError = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+/**
+ * @returns An `OnModuleLoad` callback that wraps all exported functions of a
+ * module so that their invocations are recorded in `trace`
+ */
+const traceHandlers =
+  (trace: MatchTraceEvent[], rootDir: string): OnModuleLoad =>
+  (path, exports) => {
+    const location = relative(rootDir, path).replace(/\.[^/.]+$/, "");
+    const traced = Object.fromEntries(
+      Object.entries(exports).map(([name, value]) => {
+        if (typeof value !== "function") return [name, value];
+        const handler = async (...args: unknown[]) => {
+          const [req] = args;
+          const event: MatchTraceEvent = {
+            type: "handler",
+            location,
+            name,
+            params:
+              typeof req === "object" && req !== null && "params" in req
+                ? (req as { params: unknown }).params
+                : undefined,
+          };
+          trace.push(event);
+          try {
+            const result = await value(...args);
+            event.result = formatValue(result);
+            return result;
+          } catch (e) {
+            event.error = formatError(e);
+            throw e;
+          }
+        };
+        return [name, handler];
+      })
+    );
+    Object.defineProperty(traced, "__esModule", { value: true });
+    return traced;
+  };
+
+/**
+ * @returns The request headers passed on to the page, `undefined` if the
+ * middleware did not override them
+ */
+const getRequestHeaders = (response: Response) => {
+  const overridden = response.headers.get("x-middleware-override-headers");
+  if (overridden === null) return undefined;
+  return Object.fromEntries(
+    overridden
+      .split(",")
+      .filter(Boolean)
+      .map((key) => [
+        key,
+        response.headers.get(`x-middleware-request-${key}`) || "",
+      ])
+  );
+};
+
+const describeResponse = async (
+  response: Response | void
+): Promise<MatchResponse> => {
+  if (!response) return { type: "none" };
+  const { status } = response;
+  const headers = Object.fromEntries(
+    Array.from(response.headers.entries()).filter(
+      ([key]) => !key.startsWith("x-middleware-")
+    )
+  );
+  const rewrite = response.headers.get("x-middleware-rewrite");
+  const requestHeaders = getRequestHeaders(response);
+  if (rewrite)
+    return {
+      type: "rewrite",
+      status,
+      destination: rewrite,
+      headers,
+      requestHeaders,
+    };
+  const location = response.headers.get("location");
+  if (location)
+    return { type: "redirect", status, destination: location, headers };
+  if (response.headers.get("x-middleware-next"))
+    return { type: "next", status, headers, requestHeaders };
+  return {
+    type: response.headers.get("content-type")?.includes("application/json")
+      ? "json"
+      : "response",
+    status,
+    body: await response.text(),
+    headers,
+  };
+};
+
+const formatTrace = (trace: MatchTraceEvent[]) =>
+  trace
+    .map((event) =>
+      event.type === "branch"
+        ? `  branch   ${event.label}`
+        : event.type === "rejection"
+        ? `  waitUntil rejected ${event.error}`
+        : `  handler  ${event.location} ${event.name}(${
+            event.params === undefined ? "" : formatValue(event.params)
+          }) ${
+            event.error !== undefined
+              ? `threw ${event.error}`
+              : `-> ${event.result ?? "pending"}`
+          }`
+    )
+    .join("\n");
+
+const formatResponse = (response: MatchResponse) => {
+  switch (response.type) {
+    case "none": {
+      return "no response";
+    }
+    case "next": {
+      return `next (${response.status})`;
+    }
+    case "rewrite":
+    case "redirect": {
+      return `${response.type} ${response.destination} (${response.status})`;
+    }
+    default: {
+      return `${response.type} (${response.status}) ${response.body}`;
+    }
+  }
+};
+
+/**
+ * Runs the generated router against a mocked request without starting next
+ * and prints every visited branch, handler invocation and the final response
+ */
+const match = async ({
+  path,
+  method = "GET",
+  cookies = {},
+  headers = {},
+  query = {},
+  body,
+  json = false,
+  ...options
+}: MatchOptions) => {
+  try {
+    if (body !== undefined && (method === "GET" || method === "HEAD"))
+      throw new Error(
+        `${method} requests can not have a body, pass a different --method to send one`
+      );
+    const project = await resolveProject(options);
+    const diagnostics = new Diagnostics(project.strict);
+    const { router } = await ejectRouter(project, diagnostics);
+    diagnostics.throwIfErrors();
+    logDiagnostics(diagnostics.warnings);
+    const { code } = await transform(
+      renderRouter({ ...router, branches: traceBranch(router.branches) }),
+      {
+        jsc: {
+          parser: {
+            syntax: "typescript",
+            dynamicImport: true,
+          },
+          target: "es2020",
+        },
+        module: {
+          type: "commonjs",
+        },
+      }
+    );
+    const trace: MatchTraceEvent[] = [];
+    const location = project.outFile;
+    const loader = createModuleLoader();
+    const projectRequire = loader.makeRequire(
+      location,
+      traceHandlers(trace, project.rootDir)
+    );
+    const { middleware } = executeScript<RouterModule>(
+      code,
+      location,
+      projectRequire
+    );
+    const { NextRequest } = projectRequire("next/server");
+    const url = new URL(path, `http://${headers.host || "localhost:3000"}`);
+    Object.entries(query).forEach(([key, value]) =>
+      url.searchParams.append(key, value)
+    );
+    const requestHeaders = new Headers(headers);
+    const cookieHeader = Object.entries(cookies)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("; ");
+    if (cookieHeader) requestHeaders.set("cookie", cookieHeader);
+    const pending: Promise<unknown>[] = [];
+    Object.assign(globalThis, {
+      __middleware_trace: (label: string) =>
+        trace.push({ type: "branch", label }),
+    });
+    const response = await middleware(
+      new NextRequest(url, { method, headers: requestHeaders, body }),
+      { waitUntil: (promise) => pending.push(promise) }
+    );
+    // a rejected waitUntil promise does not fail the request in next either
+    (await Promise.allSettled(pending)).forEach((settled) => {
+      if (settled.status === "rejected")
+        trace.push({ type: "rejection", error: formatError(settled.reason) });
+    });
+    const result = {
+      request: { method, url: url.href },
+      trace,
+      response: await describeResponse(response),
+    };
+    if (json) console.log(JSON.stringify(result, null, 2));
+    else
+      console.log(
+        [
+          `${method} ${url.pathname}${url.search}`,
+          formatTrace(trace),
+          formatResponse(result.response),
+        ].join("\n")
+      );
+    return result;
+  } catch (e) {
+    logError("error while matching request:", e);
+    process.exit(1);
+  }
+};
+
+export default match;
@@ -1,17 +1,22 @@
 import { build } from "./build";
+import { MiddlewareOptions, resolveProject } from "./build/project";
+import { logDiagnostics, logError } from "./util/diagnostics";
 import logger from "./util/log";
 
-const prod = async () => {
+const prod = async (options?: MiddlewareOptions) => {
   try {
     const start = Date.now();
-    const { cancelled, rewrites } = await build();
+    const { cancelled, rewrites, diagnostics } = await build(
+      await resolveProject(options)
+    );
     if (cancelled) throw new Error("Middleware build cancelled"); // should not happen
+    if (diagnostics) logDiagnostics(diagnostics);
     logger.success(`generated middleware in ${Date.now() - start}ms`);
     // this only runs if the build was not cancelled which means
     // rewrites will never be undefined here
     return rewrites as Exclude<typeof rewrites, undefined>;
   } catch (e) {
-    logger.error("error while generating middleware:", e);
+    logError("error while generating middleware:", e);
     process.exit(1);
   }
 };
@@ -0,0 +1,59 @@
+import { resolveRoutes } from "./build";
+import collectLayout from "./build/collect-layout";
+import inspectRoutes from "./build/inspect";
+import { MiddlewareOptions, resolveProject } from "./build/project";
+import { RouteStep, RouteTableEntry } from "./types";
+import { Diagnostics, logDiagnostics, logError } from "./util/diagnostics";
+
+export type RoutesOptions = MiddlewareOptions & {
+  json?: boolean;
+};
+
+const formatStep = ({ type, location, name, forwarded }: RouteStep) =>
+  `${type}${name ? `(${name})` : ""} ${location}${
+    forwarded === undefined ? "" : forwarded ? " [forwarded]" : " [skipped]"
+  }`;
+
+const formatTable = (entries: RouteTableEntry[]) => {
+  const rows = [
+    ["PATH", "EXTERNAL", "CHAIN", "RESOLVES TO"],
+    ...entries.map(({ path, externalPath, chain, endpoint, internalPath }) => [
+      path,
+      externalPath,
+      chain.length ? chain.map(formatStep).join(" > ") : "-",
+      internalPath ? `${endpoint} ${internalPath}` : endpoint,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+};
+
+/**
+ * Prints the resolved routing table of the app directory
+ */
+const routes = async ({ json = false, ...options }: RoutesOptions = {}) => {
+  try {
+    const project = await resolveProject(options);
+    const diagnostics = new Diagnostics(project.strict);
+    const layout = await collectLayout(project, diagnostics);
+    const entries = inspectRoutes(layout, resolveRoutes(layout, diagnostics));
+    diagnostics.throwIfErrors();
+    logDiagnostics(diagnostics.warnings);
+    console.log(json ? JSON.stringify(entries, null, 2) : formatTable(entries));
+    return entries;
+  } catch (e) {
+    logError("error while collecting routes:", e);
+    process.exit(1);
+  }
+};
+
+export default routes;
@@ -5,8 +5,15 @@ export type LayoutType<T> = [
 ];
 
 export type Forwards = {
+  /**
+   * All forwarded dynamic params, including the ones resolved by the host,
+   * locale negotiation or experiments
+   */
   dynamic: string[];
   static: string[];
+  host: string[];
+  locale: string[];
+  experiment: string[];
 };
 
 export type SegmentLayout = {
@@ -15,11 +22,21 @@ export type SegmentLayout = {
   redirect: boolean;
   page: boolean;
   route: boolean;
+  skipMiddleware: boolean;
   external?: string;
   middleware: boolean;
+  /**
+   * true if the middleware of the segment exports a `Locals` type
+   */
+  locals: boolean;
+  notFound: boolean;
+  notFoundMiddleware: boolean;
+  errorMiddleware: boolean;
+  afterMiddleware: boolean;
   location: string;
   segment: string;
   group: boolean;
+  slot: boolean;
   staticForward: boolean;
   internalPath: string;
   externalPath: string;
@@ -50,15 +67,69 @@ export type RouteConfig =
       type: RouteTypes.MIDDLEWARE | RouteTypes.NEXT;
     };
 
+export type MergedForward = readonly [ForwarderConfig, MergedRoute];
+
 export type MergedRoute = [
   current: SegmentLayout,
   next?: MergedRoute | SegmentLayout,
-  forward?: readonly [ForwarderConfig, MergedRoute]
+  /**
+   * All forwards of the segment that lead to a route, in the order they are
+   * tried
+   */
+  forwards?: readonly MergedForward[]
 ];
 
+/**
+ * A segment with multiple forwards is flattened into a chain of routes of the
+ * same segment, every forward continues with the next one if it does not
+ * forward the request.
+ */
 export type FlattenedRoute = [
   currentSegment: SegmentLayout,
   type: RouteConfig,
   next?: FlattenedRoute | SegmentLayout,
   forward?: FlattenedRoute | SegmentLayout
 ];
+
+/**
+ * An external path hash together with the flattened route that handles
+ * requests matching it
+ */
+export type ResolvedRoute = readonly [
+  hash: string,
+  route: FlattenedRoute | SegmentLayout
+];
+
+export type RouteStepType =
+  | "middleware"
+  | "forward.dynamic"
+  | "forward.static"
+  | "forward.host"
+  | "forward.locale"
+  | "forward.experiment"
+  | "rewrite"
+  | "redirect"
+  | "external";
+
+export type RouteStep = {
+  type: RouteStepType;
+  location: string;
+  name?: string;
+  forwarded?: boolean;
+};
+
+export type RouteEndpointType =
+  | "page"
+  | "route"
+  | "rewrite"
+  | "redirect"
+  | "external"
+  | "not-found";
+
+export type RouteTableEntry = {
+  path: string;
+  externalPath: string;
+  chain: RouteStep[];
+  endpoint: RouteEndpointType;
+  internalPath?: string;
+};
@@ -0,0 +1,189 @@
+import logger from "./log";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+type DiagnosticDefinition = {
+  code: string;
+  severity: DiagnosticSeverity;
+  fix?: string;
+};
+
+/**
+ * All problems that can be reported during middleware generation. Codes are
+ * stable and must never be re-used for a different problem.
+ */
+const definitions = {
+  PAGE_WITH_EXTERNAL: {
+    code: "NAM001",
+    severity: "error",
+    fix: "Remove the page or move the external file into a segment without a page.",
+  },
+  MATCHER_CONFLICT: {
+    code: "NAM002",
+    severity: "error",
+    fix: "Use the same parameter name for dynamic segments at the same position.",
+  },
+  ROUTE_CONFLICT: {
+    code: "NAM003",
+    severity: "error",
+    fix: "Remove one of the pages or move it into a different segment.",
+  },
+  AMBIGUOUS_ROUTE: {
+    code: "NAM004",
+    severity: "error",
+    fix: "Add a forward to the parent segment or remove one of the pages.",
+  },
+  // NAM005 reported static and dynamic forwards in the same segment
+  FORWARDED_EXTERNAL: {
+    code: "NAM006",
+    severity: "error",
+    fix: "Move the external file into a segment that is not forwarded.",
+  },
+  DYNAMIC_EXTERNAL: {
+    code: "NAM007",
+    severity: "error",
+    fix: "Move the external file into a segment without dynamic parents.",
+  },
+  EXTERNAL_ORIGIN: {
+    code: "NAM008",
+    severity: "error",
+    fix: "Default export a string or a function that resolves to a valid origin.",
+  },
+  MULTIPLE_HOOKS: {
+    code: "NAM009",
+    severity: "warning",
+    fix: "Remove all but one middleware.hooks file.",
+  },
+  UNUSED_FORWARD: {
+    code: "NAM010",
+    severity: "warning",
+    fix: "Remove the export or add the matching segment.",
+  },
+  STALE_OUTPUT: {
+    code: "NAM011",
+    severity: "error",
+    fix: "Run next dev or next build to regenerate the middleware.",
+  },
+  OPTIONAL_CATCH_ALL_CONFLICT: {
+    code: "NAM012",
+    severity: "error",
+    fix: "Remove the conflicting page or use a required catch all segment.",
+  },
+  INVALID_CONFIG: {
+    code: "NAM013",
+    severity: "error",
+    fix: "Fix or remove the option, see the readme for all supported options.",
+  },
+  DUPLICATE_FORWARD: {
+    code: "NAM014",
+    severity: "error",
+    fix: "Remove the export from all but one of the forward files.",
+  },
+  GROUP_CONFLICT: {
+    code: "NAM015",
+    severity: "error",
+    fix: "Move the forward into the parent of the route groups or remove one of the pages.",
+  },
+  MISSING_NOT_FOUND_PAGE: {
+    code: "NAM016",
+    severity: "warning",
+    fix: "Add a page at the notFound path of the segment that calls notFound().",
+  },
+} satisfies Record<string, DiagnosticDefinition>;
+
+export type DiagnosticType = keyof typeof definitions;
+
+export type Diagnostic = {
+  type: DiagnosticType;
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  locations: string[];
+  fix?: string;
+};
+
+export const createDiagnostic = (
+  type: DiagnosticType,
+  message: string,
+  locations: string[] = []
+): Diagnostic => ({
+  type,
+  ...(definitions[type] as DiagnosticDefinition),
+  message,
+  locations,
+});
+
+/**
+ * Collects every problem found during a single generation pass
+ */
+export class Diagnostics {
+  public readonly items: Diagnostic[] = [];
+  /**
+   * @param strict Reports warnings as errors
+   */
+  constructor(private readonly strict = false) {}
+  public report(type: DiagnosticType, message: string, locations?: string[]) {
+    this.add(createDiagnostic(type, message, locations));
+  }
+  public add(...diagnostics: Diagnostic[]) {
+    this.items.push(
+      ...(this.strict
+        ? diagnostics.map((diagnostic) => ({
+            ...diagnostic,
+            severity: "error" as const,
+          }))
+        : diagnostics)
+    );
+  }
+  public get hasErrors() {
+    return this.items.some(({ severity }) => severity === "error");
+  }
+  public get warnings() {
+    return this.items.filter(({ severity }) => severity === "warning");
+  }
+  public throwIfErrors() {
+    if (this.hasErrors) throw new DiagnosticsError(this.items);
+  }
+}
+
+export class DiagnosticsError extends Error {
+  constructor(public readonly diagnostics: Diagnostic[]) {
+    const errors = diagnostics.filter(({ severity }) => severity === "error");
+    super(
+      `found ${errors.length} problem${errors.length === 1 ? "" : "s"}:\n` +
+        errors.map(formatDiagnostic).join("\n")
+    );
+    this.name = "DiagnosticsError";
+  }
+}
+
+export const formatDiagnostic = ({
+  code,
+  severity,
+  message,
+  locations,
+  fix,
+}: Diagnostic) =>
+  [
+    `${severity} ${code}: ${message}`,
+    ...locations.map((location) => `  at ${location}`),
+    ...(fix ? [`  fix: ${fix}`] : []),
+  ].join("\n");
+
+export const logDiagnostics = (diagnostics: Diagnostic[]) => {
+  diagnostics.forEach((diagnostic) => {
+    if (diagnostic.severity === "error")
+      logger.error(formatDiagnostic(diagnostic));
+    else logger.warn(formatDiagnostic(diagnostic));
+  });
+};
+
+/**
+ * Logs an error thrown during generation, diagnostics are logged one by one
+ */
+export const logError = (message: string, e: unknown) => {
+  if (e instanceof DiagnosticsError) {
+    logger.error(message);
+    logDiagnostics(e.diagnostics);
+  } else logger.error(message, e);
+};
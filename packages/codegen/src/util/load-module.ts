@@ -0,0 +1,76 @@
+import { transformSync } from "@swc/core";
+import fse from "fs-extra";
+import { createRequire } from "module";
+import { dirname, join, resolve } from "path";
+import { executeScript } from "./run-script";
+
+const { existsSync, readFileSync, statSync } = fse;
+
+const extensions = [".ts", ".tsx", ".js", ".jsx", ".mts", ".mjs"];
+
+type ModuleExports = Record<string, unknown>;
+
+export type OnModuleLoad = (
+  path: string,
+  exports: ModuleExports
+) => ModuleExports;
+
+/**
+ * @returns The first existing file for an extensionless module path
+ */
+const resolveFile = (path: string) =>
+  [
+    path,
+    ...extensions.map((extension) => path + extension),
+    ...extensions.map((extension) => join(path, `index${extension}`)),
+  ].find((candidate) => existsSync(candidate) && statSync(candidate).isFile());
+
+/**
+ * Creates a loader that executes project source files (ts or js) without a
+ * build step. Relative imports are transpiled with SWC and executed, bare
+ * imports are resolved from the project's `node_modules`.
+ */
+const createModuleLoader = () => {
+  const cache = new Map<string, ModuleExports>();
+
+  const load = (path: string): ModuleExports => {
+    const cached = cache.get(path);
+    if (cached) return cached;
+    const { code } = transformSync(readFileSync(path, { encoding: "utf-8" }), {
+      filename: path,
+      jsc: {
+        parser: {
+          syntax: "typescript",
+          tsx: /\.[tj]sx$/.test(path),
+        },
+        target: "es2020",
+      },
+      module: {
+        type: "commonjs",
+      },
+    });
+    const exports = executeScript<ModuleExports>(code, path, makeRequire(path));
+    cache.set(path, exports);
+    return exports;
+  };
+
+  /**
+   * @param location The file that is requiring other modules
+   * @param onLoad Called for every relative module that is required from
+   * `location`, the returned value will be used as the module exports
+   */
+  const makeRequire = (location: string, onLoad?: OnModuleLoad) => {
+    const nodeRequire = createRequire(location);
+    return ((id: string) => {
+      if (!id.startsWith(".")) return nodeRequire(id);
+      const file = resolveFile(resolve(dirname(location), id));
+      if (!file) return nodeRequire(id);
+      const exports = load(file);
+      return onLoad ? onLoad(file, exports) : exports;
+    }) as typeof require;
+  };
+
+  return { load, makeRequire };
+};
+
+export default createModuleLoader;
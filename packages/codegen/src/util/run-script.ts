@@ -14,11 +14,15 @@ type WrappedModule<T = unknown> = (
   __dirnaname: string
 ) => T;
 
-const executeScript = <T = unknown>(src: string, location: string): T => {
+export const executeScript = <T = unknown>(
+  src: string,
+  location: string,
+  req: typeof require = require
+): T => {
   const wrapped = Module.wrap(src);
   const mod = { exports: {} };
   const script: WrappedModule = runInNewContext(wrapped, global);
-  script(mod.exports, require, mod, location, dirname(location));
+  script(mod.exports, req, mod, location, dirname(location));
   return mod.exports as T;
 };
 
@@ -2,10 +2,11 @@ import { watch } from "chokidar";
 
 const watchAll = (
   config: Record<string, string[]>,
-  onTrigger: (event: string, file: string) => unknown
+  onTrigger: (event: string, file: string) => unknown,
+  cwd?: string
 ) => {
   Object.entries(config).forEach(([events, files]) => {
-    const watcher = watch(files, { ignoreInitial: true });
+    const watcher = watch(files, { ignoreInitial: true, cwd });
     events
       .split(" ")
       .forEach((event) => watcher.on(event, (file) => onTrigger(event, file)));
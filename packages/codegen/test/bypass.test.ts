@@ -0,0 +1,75 @@
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  createMiddleware,
+  getRewrite,
+  isNext,
+  page,
+  removeProjects,
+} from "./util";
+
+afterAll(removeProjects);
+
+const middleware = `
+export default () => ({ json: { error: "unauthorized" }, status: 401 });
+`;
+
+describe("ignored prefixes", () => {
+  it("passes api routes of the pages directory on to next by default", async () => {
+    const { run } = await createMiddleware({
+      "app/middleware.ts": middleware,
+      "app/page.tsx": page,
+      "pages/api/hello.ts": page,
+    });
+    expect(isNext(await run("/api/hello"))).toBe(true);
+    expect((await run("/"))?.status).toBe(401);
+  });
+
+  it("runs the middleware below /api without ignored prefixes", async () => {
+    const { run } = await createMiddleware(
+      {
+        "app/middleware.ts": middleware,
+        "app/api/hello/route.ts": page,
+      },
+      { ignoredPrefixes: [] }
+    );
+    expect((await run("/api/hello"))?.status).toBe(401);
+  });
+});
+
+describe("skipped route handlers", () => {
+  it("does not run the handlers of their segments", async () => {
+    const { run } = await createMiddleware(
+      {
+        "app/middleware.ts": middleware,
+        "app/middleware.after.ts": `
+export default (req, res, response) => {
+  response.headers.set("x-after", "1");
+};
+`,
+        "app/page.tsx": page,
+        "app/webhooks/[provider]/route.ts": page,
+      },
+      { skipMiddleware: ["/webhooks/[provider]"] }
+    );
+    const response = await run("/webhooks/stripe", { method: "POST" });
+    expect(isNext(response)).toBe(true);
+    expect(response?.headers.get("x-after")).toBeNull();
+    expect((await run("/"))?.status).toBe(401);
+  });
+
+  it("are reached by their external path below a forward", async () => {
+    const { run } = await createMiddleware(
+      {
+        "app/forward.dynamic.ts": `export const theme = () => "dark";`,
+        "app/[theme]/middleware.ts": middleware,
+        "app/[theme]/page.tsx": page,
+        "app/[theme]/hook/route.ts": page,
+      },
+      { skipMiddleware: ["/[theme]/hook"] }
+    );
+    const response = await run("/hook", { method: "POST" });
+    expect(response?.status).toBe(200);
+    expect(getRewrite(response)).toBe("/dark/hook/");
+    expect((await run("/"))?.status).toBe(401);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  createMiddleware,
+  getRewrite,
+  isNext,
+  page,
+  removeProjects,
+} from "./util";
+
+afterAll(removeProjects);
+
+describe("catch all segments", () => {
+  it("renders an optional catch all page without middleware", async () => {
+    const { run } = await createMiddleware({
+      "app/page.tsx": page,
+      "app/docs/[[...slug]]/page.tsx": page,
+    });
+    expect(isNext(await run("/docs"))).toBe(true);
+    expect(isNext(await run("/docs/a/b"))).toBe(true);
+  });
+
+  it("renders a required catch all page without middleware", async () => {
+    const { run } = await createMiddleware({
+      "app/page.tsx": page,
+      "app/[...rest]/page.tsx": page,
+    });
+    expect(isNext(await run("/"))).toBe(true);
+    expect(isNext(await run("/a/b"))).toBe(true);
+  });
+
+  it("applies catch all params to the internal path", async () => {
+    const { run } = await createMiddleware({
+      "app/docs/forward.dynamic.ts": `export const version = () => "v2";`,
+      "app/docs/[version]/[...slug]/page.tsx": page,
+    });
+    expect(getRewrite(await run("/docs/a/b"))).toBe("/docs/v2/a/b/");
+  });
+});
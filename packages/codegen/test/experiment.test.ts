@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createMiddleware, getRewrite, page, removeProjects } from "./util";
+
+let run: Awaited<ReturnType<typeof createMiddleware>>["run"];
+
+beforeAll(async () => {
+  ({ run } = await createMiddleware({
+    "app/forward.experiment.ts": `
+export const variant = { variants: { control: 1, redesign: 0 } };
+`,
+    "app/[variant]/page.tsx": page,
+  }));
+});
+
+afterAll(removeProjects);
+
+describe("forward.experiment", () => {
+  it("persists new assignments", async () => {
+    const response = await run("/");
+    expect(getRewrite(response)).toBe("/control/");
+    expect(response?.headers.get("set-cookie")).toContain(
+      "NEXT_EXPERIMENT_variant=control"
+    );
+  });
+
+  it("keeps stored assignments", async () => {
+    const response = await run("/", {
+      headers: { cookie: "NEXT_EXPERIMENT_variant=redesign" },
+    });
+    expect(getRewrite(response)).toBe("/redesign/");
+    expect(response?.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("does not persist query overrides", async () => {
+    const response = await run("/?variant=redesign");
+    expect(getRewrite(response)).toBe("/redesign/");
+    expect(response?.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("ignores values that are not variants", async () => {
+    const response = await run("/?variant=toString");
+    expect(getRewrite(response)).toBe("/control/");
+  });
+});
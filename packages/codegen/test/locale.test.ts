@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  createMiddleware,
+  getRewrite,
+  isNext,
+  page,
+  removeProjects,
+} from "./util";
+
+let run: Awaited<ReturnType<typeof createMiddleware>>["run"];
+
+beforeAll(async () => {
+  ({ run } = await createMiddleware({
+    "app/forward.locale.ts": `
+export const locale = { locales: ["en", "de-AT", "fr"], defaultLocale: "en" };
+`,
+    "app/[locale]/page.tsx": page,
+    "app/[locale]/about/page.tsx": page,
+  }));
+});
+
+afterAll(removeProjects);
+
+describe("forward.locale", () => {
+  it("uses the locale of the path", async () => {
+    const response = await run("/fr/about", {
+      headers: { "accept-language": "de" },
+    });
+    expect(isNext(response)).toBe(true);
+    expect(response?.headers.get("vary")).toBeNull();
+  });
+
+  it("prefers the cookie over accept-language", async () => {
+    const response = await run("/about", {
+      headers: { cookie: "NEXT_LOCALE=fr", "accept-language": "de" },
+    });
+    expect(getRewrite(response)).toBe("/fr/about/");
+    expect(response?.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("matches accept-language by quality and language", async () => {
+    const response = await run("/about", {
+      headers: { "accept-language": "fr-CA;q=0.5, de;q=0.8" },
+    });
+    expect(getRewrite(response)).toBe("/de-AT/about/");
+    expect(response?.headers.get("vary")).toBe("Accept-Language, Cookie");
+    expect(response?.headers.get("set-cookie")).toContain("NEXT_LOCALE=de-AT");
+  });
+
+  it("falls back to the default locale", async () => {
+    const response = await run("/", { headers: { "accept-language": "es" } });
+    expect(getRewrite(response)).toBe("/en/");
+  });
+});
@@ -0,0 +1,38 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { createMiddleware, page, removeProjects } from "./util";
+
+afterAll(removeProjects);
+
+const middleware = `export default () => undefined;`;
+
+describe("config.matcher", () => {
+  it("lists paths with handlers in their chain", async () => {
+    const { matcher } = await createMiddleware({
+      "app/page.tsx": page,
+      "app/about/page.tsx": page,
+      "app/account/middleware.ts": middleware,
+      "app/account/page.tsx": page,
+      "app/account/[id]/page.tsx": page,
+    });
+    expect(matcher).toContain("/account");
+    expect(matcher).toContain("/account/:id([^/]+)");
+    expect(matcher).not.toContain("/about");
+    expect(matcher).not.toContain("/");
+  });
+
+  it("matches every path except the ignored prefixes with a response hook", async () => {
+    const { matcher } = await createMiddleware({
+      "app/page.tsx": page,
+      "middleware.hooks.ts": `export const response = () => undefined;`,
+    });
+    expect(matcher).toEqual(["/((?!_next(?:/|$)|api(?:/|$)).*)"]);
+  });
+
+  it("matches the ignored prefixes with protected headers", async () => {
+    const { matcher } = await createMiddleware(
+      { "app/page.tsx": page },
+      { protectedHeaders: ["x-user-id"] }
+    );
+    expect(matcher).toEqual(["/((?!_next(?:/|$)).*)"]);
+  });
+});
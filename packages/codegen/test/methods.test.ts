@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { createMiddleware, getRewrite, page, removeProjects } from "./util";
+
+afterAll(removeProjects);
+
+const middleware = `
+export default () => ({ json: { error: "unauthorized" }, status: 401 });
+`;
+
+describe("request methods", () => {
+  it("runs middleware for every method by default", async () => {
+    const { run } = await createMiddleware({
+      "app/account/forward.dynamic.ts": `export const theme = () => "dark";`,
+      "app/account/[theme]/middleware.ts": middleware,
+      "app/account/[theme]/page.tsx": page,
+    });
+    for (const method of ["GET", "HEAD", "POST", "PUT", "DELETE"]) {
+      const response = await run("/account", { method });
+      expect(response?.status).toBe(401);
+      expect(getRewrite(response)).toBeUndefined();
+    }
+  });
+
+  it("skips middleware for methods a segment opts out of", async () => {
+    const { run } = await createMiddleware({
+      "app/account/middleware.ts": `
+${middleware}
+export const methods = ["POST"];
+`,
+      "app/account/page.tsx": page,
+    });
+    expect((await run("/account", { method: "POST" }))?.status).toBe(401);
+    expect((await run("/account", { method: "GET" }))?.status).toBe(200);
+  });
+
+  it("uses the configured methods for middleware without a methods export", async () => {
+    const { run } = await createMiddleware(
+      {
+        "app/account/middleware.ts": middleware,
+        "app/account/page.tsx": page,
+      },
+      { methods: ["GET"] }
+    );
+    expect((await run("/account", { method: "GET" }))?.status).toBe(401);
+    expect((await run("/account", { method: "POST" }))?.status).toBe(200);
+  });
+
+  it("prefers method specific exports over the default export", async () => {
+    const { run } = await createMiddleware({
+      "app/account/middleware.ts": `
+${middleware}
+export const methods = ["GET"];
+export const DELETE = () => ({ json: { deleted: true } });
+`,
+      "app/account/page.tsx": page,
+    });
+    const response = await run("/account", { method: "DELETE" });
+    expect(await response?.json()).toEqual({ deleted: true });
+  });
+});
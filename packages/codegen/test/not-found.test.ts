@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  createMiddleware,
+  getRewrite,
+  isNext,
+  page,
+  removeProjects,
+} from "./util";
+
+afterAll(removeProjects);
+
+const notFound = `
+import { NextResponse } from "next/server";
+export default () => NextResponse.json({ notFound: true }, { status: 404 });
+`;
+
+describe("not-found segments", () => {
+  it("run the nearest middleware.not-found handler", async () => {
+    const { run } = await createMiddleware({
+      "app/page.tsx": page,
+      "app/shop/middleware.not-found.ts": notFound,
+      "app/shop/[id]/detail/page.tsx": page,
+    });
+    expect(isNext(await run("/shop/a/detail"))).toBe(true);
+    expect((await run("/shop/a"))?.status).toBe(404);
+    expect((await run("/blog"))?.status).toBe(200);
+  });
+
+  it("rewrite to the notFound path of the nearest not-found page", async () => {
+    const { run } = await createMiddleware({
+      "app/page.tsx": page,
+      "app/shop/not-found.tsx": page,
+      "app/shop/404/page.tsx": page,
+      "app/shop/[id]/detail/page.tsx": page,
+    });
+    expect(getRewrite(await run("/shop/a"))).toBe("/shop/404");
+    expect(getRewrite(await run("/blog"))).toBe("/404");
+  });
+
+  it("are resolved after a catch all did not match", async () => {
+    const { run } = await createMiddleware({
+      "app/shop/middleware.not-found.ts": notFound,
+      "app/shop/[id]/detail/page.tsx": page,
+      "app/shop/[...rest]/page.tsx": page,
+    });
+    const response = await run("/shop/a");
+    expect(response?.status).toBe(200);
+    expect(isNext(response)).toBe(true);
+    expect(isNext(await run("/shop/a/b"))).toBe(true);
+    expect(isNext(await run("/shop/a/detail"))).toBe(true);
+  });
+
+  it("are resolved if a catch all responds with not found", async () => {
+    const { run } = await createMiddleware({
+      "app/shop/middleware.not-found.ts": notFound,
+      "app/shop/[id]/detail/page.tsx": page,
+      "app/shop/[...rest]/middleware.ts": `export default () => ({ notFound: true });`,
+      "app/shop/[...rest]/page.tsx": page,
+    });
+    expect((await run("/shop/a"))?.status).toBe(404);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { createMiddleware, isNext, page, removeProjects } from "./util";
+
+afterAll(removeProjects);
+
+const getRequestHeader = (response: Response | void, name: string) =>
+  response?.headers
+    .get("x-middleware-override-headers")
+    ?.split(",")
+    .includes(name)
+    ? response.headers.get(`x-middleware-request-${name}`)
+    : null;
+
+const headers = { "x-user-id": "admin", "x-tenant-id": "acme" };
+
+describe("protected headers", () => {
+  const createProject = (files: Record<string, string>) =>
+    createMiddleware(
+      { "app/page.tsx": page, ...files },
+      { protectedHeaders: ["x-user-id", "x-tenant-*"] }
+    );
+
+  it("are removed from requests without handlers", async () => {
+    const { run } = await createProject({});
+    const response = await run("/", { headers });
+    expect(isNext(response)).toBe(true);
+    expect(getRequestHeader(response, "x-user-id")).toBeNull();
+    expect(getRequestHeader(response, "x-tenant-id")).toBeNull();
+  });
+
+  it("are removed from next responses of middleware", async () => {
+    const { run } = await createProject({
+      "app/middleware.ts": `
+import { NextResponse } from "next/server";
+export default () => NextResponse.next();
+`,
+    });
+    const response = await run("/", { headers });
+    expect(isNext(response)).toBe(true);
+    expect(response?.headers.has("x-middleware-override-headers")).toBe(true);
+    expect(getRequestHeader(response, "x-user-id")).toBeNull();
+  });
+
+  it("are removed from request headers set by after handlers", async () => {
+    const { run } = await createProject({
+      "app/middleware.after.ts": `
+import { NextResponse } from "next/server";
+export default (req) =>
+  NextResponse.rewrite(new URL("/", req.url), {
+    request: { headers: req.headers },
+  });
+`,
+    });
+    const response = await run("/", { headers });
+    expect(getRequestHeader(response, "x-user-id")).toBeNull();
+    expect(getRequestHeader(response, "x-tenant-id")).toBeNull();
+  });
+
+  it("keep values set by middleware", async () => {
+    const { run } = await createProject({
+      "app/middleware.ts": `
+import { NextResponse } from "next/server";
+export default (req) => {
+  req.requestHeaders.set("x-user-id", "user");
+  return NextResponse.next();
+};
+`,
+    });
+    const response = await run("/", { headers });
+    expect(getRequestHeader(response, "x-user-id")).toBe("user");
+    expect(getRequestHeader(response, "x-tenant-id")).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { transform } from "@swc/core";
+import fse from "fs-extra";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { generate } from "../src/build";
+import { MiddlewareOptions, resolveProject } from "../src/build/project";
+import createModuleLoader from "../src/util/load-module";
+import { executeScript } from "../src/util/run-script";
+
+const { mkdtemp, outputFile, remove } = fse;
+
+type RouterModule = {
+  middleware: (
+    request: Request,
+    event: { waitUntil: (promise: Promise<unknown>) => void }
+  ) => Promise<Response | void>;
+  config: { matcher: string[] };
+};
+
+/**
+ * Files of a project keyed by their path relative to the project root
+ */
+export type ProjectFiles = Record<string, string>;
+
+/**
+ * Content of a page or route file, only its location matters to the router
+ */
+export const page = "export default function Page() { return null; }";
+
+const testRequire = createRequire(__filename);
+
+/**
+ * The generated router imports the runtime through the package the project
+ * depends on, tests use the workspace package instead
+ */
+const runtimeModules: Record<string, string> = {
+  "@cxnpl/next-app-middleware/runtime": "@cxnpl/next-app-middleware-runtime",
+};
+
+const projects: string[] = [];
+
+/**
+ * Removes all projects created by `createMiddleware`
+ */
+export const removeProjects = async () => {
+  await Promise.all(projects.splice(0).map((rootDir) => remove(rootDir)));
+};
+
+/**
+ * Writes `files` to a temporary project and generates its middleware
+ * @throws `DiagnosticsError` if any errors were found in the app directory
+ */
+export const createMiddleware = async (
+  files: ProjectFiles,
+  options: MiddlewareOptions = {}
+) => {
+  const rootDir = await mkdtemp(join(tmpdir(), "next-app-middleware-"));
+  projects.push(rootDir);
+  await Promise.all(
+    Object.entries(files).map(([path, code]) =>
+      outputFile(join(rootDir, path), code)
+    )
+  );
+  const project = await resolveProject({
+    language: "typescript",
+    ...options,
+    rootDir,
+  });
+  const generated = await generate(project);
+  const [router] = generated.files;
+  const { code } = await transform(router.code, {
+    jsc: {
+      parser: {
+        syntax: "typescript",
+        dynamicImport: true,
+      },
+      target: "es2020",
+    },
+    module: {
+      type: "commonjs",
+    },
+  });
+  const projectRequire = createModuleLoader().makeRequire(project.outFile);
+  const { middleware, config } = executeScript<RouterModule>(
+    code,
+    project.outFile,
+    ((id: string) =>
+      id.startsWith(".")
+        ? projectRequire(id)
+        : testRequire(runtimeModules[id] || id)) as typeof require
+  );
+  const { NextRequest } = testRequire("next/server");
+
+  /**
+   * Runs the generated middleware against a request to `path`
+   * @returns The response of the middleware once all promises passed to
+   * `waitUntil` are settled
+   */
+  const run = async (path: string, init: RequestInit = {}) => {
+    const pending: Promise<unknown>[] = [];
+    const response = await middleware(
+      new NextRequest(new URL(path, "http://localhost:3000"), init),
+      { waitUntil: (promise) => pending.push(promise) }
+    );
+    await Promise.allSettled(pending);
+    return response;
+  };
+
+  return { ...generated, router: router.code, matcher: config.matcher, run };
+};
+
+/**
+ * @returns The pathname the response rewrites to, `undefined` if it does not
+ * rewrite the request
+ */
+export const getRewrite = (response: Response | void) => {
+  const rewrite = response?.headers.get("x-middleware-rewrite");
+  return rewrite ? new URL(rewrite).pathname : undefined;
+};
+
+/**
+ * @returns true if the response passes the request on to next unchanged
+ */
+export const isNext = (response: Response | void) =>
+  response?.headers.get("x-middleware-next") === "1";
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+import { check, match, routes } from "@cxnpl/next-app-middleware-codegen";
+
+const usage = `
+Usage: next-app-middleware <command> [options]
+
+Commands:
+  routes          print the resolved routing table of the app directory
+  check           validate the app directory and fail if the generated
+                  middleware is out of date
+  match <path>    run the generated middleware against a mocked request
+
+Options:
+  --json                 print machine readable output
+  --root-dir <path>      root of the next project (default: .)
+  --app-dir <path>       app directory relative to the root
+                         (default: app or src/app)
+  --out-file <path>      generated middleware relative to the root
+                         (default: middleware next to the app directory)
+  --page-extension <ext> pageExtensions of the next config, can be repeated
+                         (default: tsx, ts, jsx, js)
+  --ignored-prefix <path>
+                         path prefix that bypasses the middleware, can be
+                         repeated (default: /api)
+  --method <method>      request method used by match (default: GET)
+  --cookie <key=value>   request cookie used by match, can be repeated
+  --header <key:value>   request header used by match, can be repeated
+  --query <key=value>    search param used by match, can be repeated
+  --body <body>          request body used by match
+`.trim();
+
+type Flags = {
+  positionals: string[];
+  options: Record<string, string[]>;
+  json: boolean;
+};
+
+const parseFlags = (args: string[]) => {
+  const flags: Flags = { positionals: [], options: {}, json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") flags.json = true;
+    else if (arg.startsWith("--")) {
+      const key = arg.slice(2);
+      (flags.options[key] || (flags.options[key] = [])).push(args[++i]);
+    } else flags.positionals.push(arg);
+  }
+  return flags;
+};
+
+const toRecord = (pairs: string[] = [], separator: string) =>
+  Object.fromEntries(
+    pairs.map((pair) => {
+      const index = pair.indexOf(separator);
+      return index === -1
+        ? [pair, ""]
+        : [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+    })
+  );
+
+const run = async ([command, ...args]: string[]) => {
+  const { positionals, options, json } = parseFlags(args);
+  const project = {
+    rootDir: options["root-dir"]?.[0],
+    appDir: options["app-dir"]?.[0],
+    outFile: options["out-file"]?.[0],
+    pageExtensions: options["page-extension"],
+    ignoredPrefixes: options["ignored-prefix"],
+  };
+  switch (command) {
+    case "routes": {
+      await routes({ ...project, json });
+      break;
+    }
+    case "check": {
+      await check({ ...project, json });
+      break;
+    }
+    case "match": {
+      const [path] = positionals;
+      if (!path) {
+        console.log(usage);
+        process.exit(1);
+      }
+      await match({
+        ...project,
+        path,
+        method: options.method?.[0]?.toUpperCase(),
+        cookies: toRecord(options.cookie, "="),
+        headers: toRecord(options.header, ":"),
+        query: toRecord(options.query, "="),
+        body: options.body?.[0],
+        json,
+      });
+      break;
+    }
+    default: {
+      console.log(usage);
+      if (command && command !== "help") process.exit(1);
+    }
+  }
+};
+
+run(process.argv.slice(2));
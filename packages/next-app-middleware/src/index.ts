@@ -1,21 +1,33 @@
 import { NextConfig } from "next";
-import { prod, dev } from "@cxnpl/next-app-middleware-codegen";
+import {
+  prod,
+  dev,
+  MiddlewareConfig,
+  MiddlewareOptions,
+} from "@cxnpl/next-app-middleware-codegen";
 import { PHASE_DEVELOPMENT_SERVER } from "next/dist/shared/lib/constants";
 
+export type { MiddlewareConfig, MiddlewareOptions };
+
 export const withMiddleware =
   (
     next:
       | NextConfig
-      | ((phase: string, args: { defaultConfig: NextConfig }) => NextConfig)
+      | ((phase: string, args: { defaultConfig: NextConfig }) => NextConfig),
+    options?: MiddlewareOptions
   ) =>
   async (phase: string, args: { defaultConfig: NextConfig }) => {
+    const cfg = typeof next === "function" ? next(phase, args) : next;
+    const resolvedOptions: MiddlewareOptions = {
+      pageExtensions: cfg.pageExtensions || args.defaultConfig.pageExtensions,
+      ...options,
+    };
     let result: ReturnType<typeof prod>;
     if (phase === PHASE_DEVELOPMENT_SERVER) {
-      result = dev();
+      result = dev(resolvedOptions);
     } else {
-      result = prod();
+      result = prod(resolvedOptions);
     }
-    const cfg = typeof next === "function" ? next(phase, args) : next;
     const oldRewriteGetter = cfg.rewrites;
     cfg.rewrites = async () => {
       const oldRewrites = oldRewriteGetter ? await oldRewriteGetter() : [];
@@ -1,14 +1,27 @@
 export type {
+  AfterHandler,
+  DefaultLocals,
+  ErrorHandler,
   ErrorHook,
+  ErrorSource,
+  ExperimentExposure,
+  ExperimentForwarder,
+  ExperimentHook,
   StaticForwarder,
   DynamicForwarder,
   GenericHook,
+  HostForwarder,
+  HttpMethod,
   JsonHook,
+  LocaleForwarder,
   MiddlewareHandler,
+  MiddlewareModule,
   MiddleWareHandlerResult,
+  MiddlewareResponseInit,
   NextMiddlewareInternals,
   NextMiddlewareRequest,
   NextMiddlewareResponse,
+  NotFoundHandler,
   Params,
   ParamsHook,
   ParamType,
@@ -17,5 +30,27 @@ export type {
   RewriteHook,
   RewriteHandler,
   RedirectHandler,
+  RequestBody,
   RuntimeNext,
+  SegmentAfterHandler,
+  SegmentDynamicForwarder,
+  SegmentErrorHandler,
+  SegmentLocals,
+  SegmentLocalsMap,
+  SegmentLocation,
+  SegmentMiddleware,
+  SegmentNotFoundHandler,
+  SegmentParams,
+  SegmentPaths,
+  SegmentRedirectHandler,
+  SegmentRewriteHandler,
+  SegmentStaticForwarder,
 } from "./util/types";
+export { createRequestBody } from "./util/body";
+export { assignExperiment } from "./util/experiment";
+export { applyRequestHeaders, createRequestHeaders } from "./util/headers";
+export { resolveHostForward } from "./util/host";
+export { createHref } from "./util/href";
+export { negotiateLocale } from "./util/locale";
+export { getMiddlewareHandler } from "./util/methods";
+export { createTextResponse } from "./util/response";
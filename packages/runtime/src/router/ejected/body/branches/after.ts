@@ -0,0 +1,20 @@
+import renderBranch from ".";
+import { EjectedAfter } from "../../types";
+import getSegmentHash from "../../util/get-hash";
+import { renderRequestType } from "./util";
+
+const renderAfter = ({ location, internalPath, then }: EjectedAfter) =>
+  `
+after_handlers.unshift((response) =>
+  middleware_after_${getSegmentHash(location)}.then(({
+    default: middleware_after
+  }) => middleware_after(
+    req as ${renderRequestType(location, internalPath)},
+    res,
+    response
+  ))
+);
+${renderBranch(then)}
+`.trim();
+
+export default renderAfter;
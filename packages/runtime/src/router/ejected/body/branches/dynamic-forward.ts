@@ -1,17 +1,18 @@
 import renderBranch from ".";
 import { EjectedDynamicForward } from "../../types";
-import { renderHandler, renderSwitchStatement } from "./util";
+import { renderDynamicForwarder, renderSwitchStatement } from "./util";
 
 const renderDynamicForward = ({
   then,
   forward,
   name,
+  source,
   location,
   internalPath,
 }: EjectedDynamicForward) =>
   `
-const forward_response: string | void = await ${renderHandler(
-    "forward_dynamic",
+const forward_response: string | void = await ${renderDynamicForwarder(
+    source,
     location,
     internalPath,
     name
@@ -0,0 +1,28 @@
+import renderBranch from ".";
+import { EjectedErrorBoundary } from "../../types";
+import getSegmentHash from "../../util/get-hash";
+import { renderRequestType } from "./util";
+
+const renderErrorBoundary = ({
+  location,
+  internalPath,
+  then,
+}: EjectedErrorBoundary) =>
+  `
+try {
+  ${renderBranch(then)}
+} catch (e) {
+  const error = e instanceof Error ? e : new Error(\`Runtime Exception: \${e}\`);
+  response = (await middleware_error_${getSegmentHash(location)}.then(({
+    default: middleware_error
+  }) => middleware_error(
+    req as ${renderRequestType(location, internalPath)},
+    res,
+    error,
+    { location: handler_location, params: { ...params } }
+  ))) || undefined;
+  if (!response) throw error;
+}
+`.trim();
+
+export default renderErrorBoundary;
@@ -1,16 +1,19 @@
 import { Branch, BranchTypes } from "../../types";
+import renderAfter from "./after";
 import renderCatchAll from "./catch-all";
 import renderDynamic from "./dynamic";
 import renderDynamicForward from "./dynamic-forward";
+import renderErrorBoundary from "./error-boundary";
 import external from "./external";
 import renderMiddleware from "./middleware";
 import renderNext from "./next";
-import notFound from "./not-found";
+import renderNotFound from "./not-found";
 import renderPathSwitch from "./path-swtich";
 import renderRedirect from "./redirect";
 import renderRewrite from "./rewrite";
 import skip from "./skip";
 import renderStaticForward from "./static-forward";
+import renderTrace from "./trace";
 
 const renderBranch = (branch: Branch): string => {
   switch (branch.type) {
@@ -33,7 +36,7 @@ const renderBranch = (branch: Branch): string => {
       return renderNext(branch);
     }
     case BranchTypes.NOT_FOUND: {
-      return notFound;
+      return renderNotFound(branch);
     }
     case BranchTypes.DYNAMIC: {
       return renderDynamic(branch);
@@ -50,6 +53,15 @@ const renderBranch = (branch: Branch): string => {
     case BranchTypes.EXTERNAL: {
       return external;
     }
+    case BranchTypes.TRACE: {
+      return renderTrace(branch);
+    }
+    case BranchTypes.ERROR_BOUNDARY: {
+      return renderErrorBoundary(branch);
+    }
+    case BranchTypes.AFTER: {
+      return renderAfter(branch);
+    }
     default: {
       const exhaustive: never = branch;
       return exhaustive;
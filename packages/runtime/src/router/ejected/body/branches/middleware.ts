@@ -1,33 +1,54 @@
 import renderBranch from ".";
 import { EjectedMiddleware } from "../../types";
-import { renderHandler, renderSwitchStatement } from "./util";
+import getSegmentHash from "../../util/get-hash";
+import { renderRequestType } from "./util";
+
+const renderMiddlewareHandler = (location: string, internalPath: string) => {
+  const params = `Params<"${internalPath === "//" ? "/" : internalPath}">`;
+  const locals = `SegmentLocals<"${location}">`;
+  return `
+middleware_${getSegmentHash(location)}.then((module) => {
+  handler_location = ${JSON.stringify(location)};
+  const middleware = getMiddlewareHandler<${params}, ${locals}>(
+    module,
+    nextRequest.method,
+    handledMethods
+  );
+  return middleware && middleware(
+    req as ${renderRequestType(location, internalPath)},
+    res
+  );
+})
+`.trim();
+};
 
 const renderMiddleware = ({
   then,
+  notFound,
   internalPath,
   location,
 }: EjectedMiddleware) =>
   `
-middleware_response = await ${renderHandler(
-    "middleware",
-    location,
-    internalPath
-  )};
-${renderSwitchStatement({
-  statement: "middleware_response",
-  cases: [
-    [
-      ["void 0"],
-      `{
-    ${renderBranch(then)}
-    break;
-  }`,
-    ],
-  ],
-  default: `{
-    break;
-  }`,
-})}
+middleware_response = skip_middleware
+  ? undefined
+  : await ${renderMiddlewareHandler(location, internalPath)};
+if (
+  middleware_response &&
+  !(middleware_response instanceof Response) &&
+  "next" in middleware_response
+) {
+  skip_middleware = true;
+  middleware_response = undefined;
+}
+if (middleware_response === undefined) {
+  ${renderBranch(then)}
+} else if (
+  !(middleware_response instanceof Response) &&
+  "notFound" in middleware_response
+) {
+  middleware_response = undefined;
+  ${renderBranch(notFound)}
+}
 `.trim();
 
 export default renderMiddleware;
@@ -11,12 +11,18 @@ next = (final_params) =>
     .replace(/\/(:[^/]*)/gm, (match, value) => {
       return match.replace(value, `\${final_params.${value.slice(1)}}`);
     })
+    .replace(/\/\*\?([^/]*)\/$/gm, (_, name) => {
+      // an optional catch all can be empty, only add slashes for its segments
+      return `\${(final_params.${name} as string[])
+        .map((segment) => "/" + segment)
+        .join("")}/`;
+    })
     .replace(/\/(\*[^/]*)\/$/gm, (match, value) => {
       return match.replace(
         value,
         `\${(final_params.${value.slice(1)} as string[]).join("/")}`
       );
-    })}\`
+    })}\`;
 `
     : internalPath !== "//" && internalPath !== externalPath
     ? `
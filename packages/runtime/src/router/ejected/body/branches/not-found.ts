@@ -1,5 +1,135 @@
-const notFound = `
+import {
+  EjectedNotFoundForward,
+  EjectedNotFoundResponse,
+  EjectedNotFoundSegment,
+} from "../../types";
+import { renderDynamicForwarder, renderHandler } from "./util";
+
+const getParamName = (segment: string) => segment.replace(/^(:|\*\??)/, "");
+
+const isParam = (segment: string) => /^(:|\*)/.test(segment);
+
+/**
+ * @returns A template literal of the internal path with all params applied
+ */
+const renderPath = (internalPath: string) =>
+  `\`/${internalPath
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      const name = getParamName(segment);
+      if (segment.startsWith("*?"))
+        return `\${(params.${name} as string[])
+          .map((segment) => segment + "/")
+          .join("")}`;
+      if (segment.startsWith("*"))
+        return `\${(params.${name} as string[]).join("/")}/`;
+      if (segment.startsWith(":")) return `\${params.${name}}/`;
+      return `${segment}/`;
+    })
+    .join("")}\``;
+
+const renderForward = (
+  { type, name, location, internalPath }: EjectedNotFoundForward,
+  label: string
+) =>
+  type !== "static"
+    ? `
+if (params.${name} === undefined) {
+  const forward_response: string | void = await ${renderDynamicForwarder(
+    type,
+    location,
+    internalPath,
+    name
+  )};
+  if (forward_response === undefined) break ${label};
+  params.${name} = forward_response;
+}
+`.trim()
+    : `
+if (!(await ${renderHandler(
+        "forward_static",
+        location,
+        internalPath,
+        name
+      )})) break ${label};
+`.trim();
+
+const renderSegment = (
+  {
+    location,
+    internalPath,
+    middleware,
+    page,
+    forwards,
+  }: EjectedNotFoundSegment,
+  index: number
+) => {
+  const label = `not_found_${index}`;
+  // params of dynamic forwards are already checked while resolving them
+  const params = internalPath
+    .split("/")
+    .filter(isParam)
+    .map(getParamName)
+    .filter(
+      (name) =>
+        !forwards.some(
+          (forward) => forward.type !== "static" && forward.name === name
+        )
+    );
+  return `
+${label}: {
+  ${forwards.map((forward) => renderForward(forward, label)).join("\n")}
+  ${
+    params.length
+      ? `if (${params
+          .map((name) => `params.${name} === undefined`)
+          .join(" || ")}) break ${label};`
+      : ""
+  }
+  ${
+    middleware
+      ? `
+  response = (await ${renderHandler(
+    "middleware_not_found",
+    location,
+    internalPath
+  )}) || undefined;
+  if (response) break not_found;
+  `.trim()
+      : ""
+  }
+  ${
+    page
+      ? `
+  not_found_path = ${renderPath(internalPath)} + not_found_path.slice(1);
+  break not_found;
+  `.trim()
+      : ""
+  }
+}
+`.trim();
+};
+
+/**
+ * Segment handlers only run if `resolve_not_found` is set, it is shadowed in
+ * the default case of a path switch with a catch all since the catch all can
+ * still match the request
+ */
+const renderNotFound = ({ segments }: EjectedNotFoundResponse) =>
+  `
 notFound = true;
+${
+  segments.length
+    ? `
+if (resolve_not_found) {
+  not_found: {
+    ${segments.map(renderSegment).join("\n")}
+  }
+}
+`.trim()
+    : ""
+}
 `.trim();
 
-export default notFound;
+export default renderNotFound;
@@ -23,17 +23,23 @@ const renderPathSwitch = ({
       `,
       ];
     }),
-    default: `{
-      ${renderBranch(defaultCase)}${
-      catchAll
-        ? `
-        if (notFound) {
-          notFound = false;
-          ${renderBranch(catchAll)}
-        }
-      `
-        : ""
-    }break;
+    // not-found segments of the default case are only resolved if the catch
+    // all does not match either
+    default: catchAll
+      ? `{
+      {
+        const resolve_not_found = false;
+        ${renderBranch(defaultCase)}
+      }
+      if (notFound) {
+        notFound = false;
+        ${renderBranch(catchAll)}
+      }
+      break;
+    }`
+      : `{
+      ${renderBranch(defaultCase)}
+      break;
     }`,
   });
 };
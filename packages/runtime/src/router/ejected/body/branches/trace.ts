@@ -0,0 +1,10 @@
+import renderBranch from ".";
+import { EjectedTrace } from "../../types";
+
+const renderTrace = ({ label, then }: EjectedTrace) =>
+  `
+__middleware_trace(${JSON.stringify(label)});
+${renderBranch(then)}
+`.trim();
+
+export default renderTrace;
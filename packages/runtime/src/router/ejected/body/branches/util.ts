@@ -1,5 +1,14 @@
+import { DynamicForwardSource } from "../../types";
 import getSegmentHash from "../../util/get-hash";
 
+/**
+ * @returns The request type of the handlers of the segment at `location`
+ */
+export const renderRequestType = (location: string, internalPath: string) =>
+  `NextMiddlewareRequest<Params<"${
+    internalPath === "//" ? "/" : internalPath
+  }">, SegmentLocals<"${location}">>`;
+
 export const renderHandler = (
   type: string,
   location: string,
@@ -9,13 +18,73 @@ export const renderHandler = (
   `
 ${type}_${getSegmentHash(location)}.then(({
   ${imports}: ${type}
-}) => ${type}(
-  req as NextMiddlewareRequest<Params<"${
-    internalPath === "//" ? "/" : internalPath
-  }">>,
-  res
-))
+}) => {
+  handler_location = ${JSON.stringify(location)};
+  return ${type}(
+    req as ${renderRequestType(location, internalPath)},
+    res
+  );
+})
+`.trim();
+
+/**
+ * @returns An expression that resolves the value of the param `name` of a
+ * dynamic forward, `undefined` if the request is not forwarded
+ */
+export const renderDynamicForwarder = (
+  source: DynamicForwardSource,
+  location: string,
+  internalPath: string,
+  name: string
+) => {
+  switch (source) {
+    case "dynamic": {
+      return renderHandler("forward_dynamic", location, internalPath, name);
+    }
+    case "host": {
+      return `
+forward_host_${getSegmentHash(location)}.then(({
+  ${name}: forward_host
+}) => {
+  handler_location = ${JSON.stringify(location)};
+  return resolveHostForward(forward_host, req.headers.get("host"));
+})
+`.trim();
+    }
+    case "locale": {
+      return `
+forward_locale_${getSegmentHash(location)}.then(({
+  ${name}: forward_locale
+}) => {
+  handler_location = ${JSON.stringify(location)};
+  return negotiateLocale(forward_locale, req, res, explicit_locales.${name});
+})
 `.trim();
+    }
+    case "experiment": {
+      return `
+forward_experiment_${getSegmentHash(location)}.then(({
+  ${name}: forward_experiment
+}) => {
+  handler_location = ${JSON.stringify(location)};
+  const exposure = assignExperiment(
+    forward_experiment,
+    req,
+    res,
+    ${JSON.stringify(name)},
+    ${JSON.stringify(location)}
+  );
+  if (exposure) exposures.push(exposure);
+  return exposure?.variant;
+})
+`.trim();
+    }
+    default: {
+      const exhaustive: never = source;
+      return exhaustive;
+    }
+  }
+};
 
 type RenderSwitchStatementOptions = {
   statement: string;
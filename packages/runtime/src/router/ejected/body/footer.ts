@@ -1,6 +1,7 @@
 import { RouterHooksConfig } from "../types";
 
 const renderBodyFooter = ({
+  experiment,
   notFound,
   params,
   json,
@@ -10,24 +11,28 @@ const renderBodyFooter = ({
   external,
 }: RouterHooksConfig) =>
   `
+const forward_init =
+  internals.requestHeaders || protectedHeaders.length
+    ? { request: { headers: req.requestHeaders } }
+    : undefined;
 if (!response) {
   if (notFound) {
     ${
       notFound
         ? `
-      response = (await notFoundHook(req, res)) || NextResponse.rewrite(new URL("/404", nextRequest.nextUrl));
+      response = (await notFoundHook(req, res)) || NextResponse.rewrite(new URL(not_found_path, nextRequest.nextUrl), forward_init);
     `
-        : `response = NextResponse.rewrite(new URL("/404", nextRequest.nextUrl));`
+        : `response = NextResponse.rewrite(new URL(not_found_path, nextRequest.nextUrl), forward_init);`
     }
     
   } else if (external) {
     ${
       external
         ? `
-      response = await externalHook(req, res) || NextResponse.next();
+      response = await externalHook(req, res) || NextResponse.next(forward_init);
     `
         : `
-      response = NextResponse.next();
+      response = NextResponse.next(forward_init);
     `
     }
   } else if (next) {
@@ -52,52 +57,66 @@ if (!response) {
     final_pathname = \`\${final_pathname}?\${search}\`;
     response =
       final_pathname !== \`\${pathname}?\${nextRequest.nextUrl.searchParams}\`
-        ? NextResponse.rewrite(new URL(nextRequest.nextUrl.basePath + final_pathname, nextRequest.nextUrl))
-        : NextResponse.next();
+        ? NextResponse.rewrite(new URL(nextRequest.nextUrl.basePath + final_pathname, nextRequest.nextUrl), forward_init)
+        : NextResponse.next(forward_init);
   } else {
     if (!middleware_response) throw new Error("Expected middleware response");
     const middleware_result = middleware_response as Exclude<MiddleWareHandlerResult, void>;
-    if ("redirect" in middleware_result) {
+    if (middleware_result instanceof Response) {
+      response = middleware_result instanceof NextResponse
+        ? middleware_result
+        : new NextResponse(middleware_result.body, {
+            status: middleware_result.status,
+            statusText: middleware_result.statusText,
+            headers: middleware_result.headers
+          });
+    } else if ("redirect" in middleware_result) {
+      const destination = new URL(middleware_result.redirect, nextRequest.nextUrl);
       ${
         redirect
           ? `
-        response = (await redirectHook(req, res)) || NextResponse.redirect(
-          new URL(middleware_result.redirect, nextRequest.nextUrl),
-          middleware_result.status
-        );
+        response = (await redirectHook(req, res, destination.href, middleware_result.status))
+          || NextResponse.redirect(destination, middleware_result.status);
       `
           : `
-        response = NextResponse.redirect(
-          new URL(middleware_result.redirect, nextRequest.nextUrl),
-          middleware_result.status
-        );
+        response = NextResponse.redirect(destination, middleware_result.status);
       `
       }
-    } else if ("rewrite" in middleware_result!) {
+    } else if ("rewrite" in middleware_result) {
+      const destination = new URL(middleware_result.rewrite, nextRequest.nextUrl);
       ${
         rewrite
           ? `
-        response = (await rewriteHook(req, res)) || NextResponse.rewrite(
-          new URL(middleware_result.rewrite, nextRequest.nextUrl)
-        );
+        response = (await rewriteHook(req, res, destination.href))
+          || NextResponse.rewrite(destination, forward_init);
       `
           : `
-        response = NextResponse.rewrite(
-          new URL(middleware_result.rewrite, nextRequest.nextUrl)
-        );
+        response = NextResponse.rewrite(destination, forward_init);
       `
       }
-    } else if ("json" in middleware_result!) {
+    } else if ("json" in middleware_result) {
       ${
         json
           ? `
-        response = (await jsonHook(req, res)) 
-          || NextResponse.json(middleware_result.json)
+        response = (await jsonHook(req, res, middleware_result.json))
+          || NextResponse.json(middleware_result.json, middleware_result);
       `
           : `
-        response = NextResponse.json(middleware_result.json)
+        response = NextResponse.json(middleware_result.json, middleware_result);
       `
       }
+    } else if ("text" in middleware_result) {
+      response = createTextResponse(
+        middleware_result.text,
+        "text/plain; charset=utf-8",
+        middleware_result
+      );
+    } else if ("html" in middleware_result) {
+      response = createTextResponse(
+        middleware_result.html,
+        "text/html; charset=utf-8",
+        middleware_result
+      );
     } else throw new Error("invalid middleware response");
   }
 }
@@ -107,6 +126,23 @@ internals.responseHeaders !== undefined &&
     response!.headers.append(key, value)
   );
 
+for (const after_handler of after_handlers) {
+  response = (await after_handler(response!)) || response;
+}
+
+if (internals.requestHeaders || protectedHeaders.length)
+  applyRequestHeaders(response!, req.requestHeaders, protectedHeaders);
+
+${
+  experiment
+    ? `
+for (const exposure of exposures) {
+  ev.waitUntil(Promise.resolve(experimentHook(req, res, exposure)));
+}
+`
+    : ""
+}
+
 ${
   response
     ? `
@@ -1,11 +1,77 @@
-const bodyHead = `
-if (nextRequest.method !== "GET") return NextResponse.next();
+import { EjectedLocalePrefix, EjectedRouter } from "../types";
+import getSegmentHash from "../util/get-hash";
+
+/**
+ * @returns An expression that passes the request on to next without running
+ * any handler, protected headers are still removed
+ */
+const renderPassThrough = (protectedHeaders: string[]) =>
+  protectedHeaders.length
+    ? `NextResponse.next({
+  request: {
+    headers: createRequestHeaders(nextRequest.headers, protectedHeaders),
+  },
+})`
+    : "NextResponse.next()";
+
+const renderIgnoredPrefix = (prefix: string, passThrough: string) => `
+if (
+  incomingPathname === ${JSON.stringify(prefix)} ||
+  incomingPathname.startsWith(${JSON.stringify(`${prefix}/`)})
+)
+  return ${passThrough};
+`;
+
+/**
+ * @returns A statement that removes a locale of the locale forward from the
+ * path if it directly follows `externalPath`
+ */
+const renderLocalePrefix = ({
+  location,
+  name,
+  externalPath,
+}: EjectedLocalePrefix) => {
+  const parents = externalPath.split("/").filter(Boolean);
+  const index = parents.length;
+  const conditions = [
+    ...parents
+      .map((segment, position) =>
+        segment.startsWith(":")
+          ? undefined
+          : `segments[${position}] === ${JSON.stringify(segment)}`
+      )
+      .filter(Boolean),
+    `segments.length > ${index + 1}`,
+  ];
+  return `
+if (${conditions.join(" && ")}) {
+  const { ${name}: forward_locale } = await forward_locale_${getSegmentHash(
+    location
+  )};
+  if (forward_locale.locales.includes(segments[${index}])) {
+    explicit_locales.${name} = segments[${index}];
+    segments.splice(${index}, 1);
+  }
+}
+`;
+};
+
+const renderBodyHead = ({
+  ignoredPrefixes,
+  notFound,
+  localePrefixes,
+  protectedHeaders,
+}: EjectedRouter) =>
+  `
 const incomingPathname = nextRequest.nextUrl.pathname;
 if (incomingPathname.indexOf("_next/", 1) === 1) return NextResponse.next();
-if (incomingPathname === "/api" || incomingPathname.indexOf("api/", 1) === 0)
-  return NextResponse.next();
+${ignoredPrefixes
+  .map((prefix) =>
+    renderIgnoredPrefix(prefix, renderPassThrough(protectedHeaders))
+  )
+  .join("")}
 if (publicFiles.has(incomingPathname))
-  return NextResponse.next();
+  return ${renderPassThrough(protectedHeaders)};
 const pathname =
   incomingPathname.length < 2
     ? "/"
@@ -13,9 +79,17 @@ const pathname =
     ? incomingPathname
     : incomingPathname + "/";
 const [, ...segments] = pathname.split("/");
+const explicit_locales: Record<string, string | undefined> = {};
+${localePrefixes.map(renderLocalePrefix).join("")}
 const params: ParamType = {};
 const internals = {} as NextMiddlewareInternals;
 const req = {} as NextMiddlewareRequest;
+Object.defineProperty(req, "method", {
+  get: () => nextRequest.method
+});
+Object.defineProperty(req, "body", {
+  get: () => internals.body || (internals.body = createRequestBody(nextRequest))
+});
 Object.defineProperty(req, "url", {
   get: () =>
     internals.nextUrl || (internals.nextUrl = nextRequest.nextUrl.clone()),
@@ -23,6 +97,14 @@ Object.defineProperty(req, "url", {
 Object.defineProperty(req, "headers", {
   get: () => nextRequest.headers
 });
+Object.defineProperty(req, "requestHeaders", {
+  get: () =>
+    internals.requestHeaders ||
+    (internals.requestHeaders = createRequestHeaders(
+      nextRequest.headers,
+      protectedHeaders
+    )),
+});
 Object.defineProperty(req, "cookies", {
   get: () => nextRequest.cookies
 });
@@ -38,6 +120,10 @@ Object.defineProperty(req, "search", {
       nextRequest.nextUrl.search
     )),
 });
+const locals = {};
+Object.defineProperty(req, "locals", {
+  get: () => locals
+});
 Object.defineProperty(req, "waitUntil", {
   get: () => (promise: Promise<unknown>) => ev.waitUntil(promise)
 });
@@ -52,10 +138,18 @@ Object.defineProperty(res, "cookies", {
     (internals.cookies = new ResponseCookies(res.headers)),
 });
 let middleware_response: MiddleWareHandlerResult | void;
-let response: NextResponse | void;
+let skip_middleware = false;
+let response = undefined as NextResponse | void;
 let next: RuntimeNext = undefined;
 let notFound = false;
+const resolve_not_found = true;
+let not_found_path = ${JSON.stringify(notFound)};
 let external = false;
+let handler_location = "";
+const exposures: ExperimentExposure[] = [];
+const after_handlers: ((
+  response: NextResponse
+) => Promise<NextResponse | void>)[] = [];
 `.trim();
 
-export default bodyHead;
+export default renderBodyHead;
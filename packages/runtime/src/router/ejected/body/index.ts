@@ -1,12 +1,13 @@
 import { EjectedRouter } from "../types";
 import renderBranch from "./branches";
 import renderBodyFooter from "./footer";
-import bodyHead from "./head";
+import renderBodyHead from "./head";
 
-const renderBody = ({ hooks, branches }: EjectedRouter) =>
-  `
+const renderBody = (router: EjectedRouter) => {
+  const { hooks, branches } = router;
+  return `
 export const middleware: NextMiddleware = async (nextRequest, ev) => {
-  ${bodyHead}
+  ${renderBodyHead(router)}
   try {
     ${renderBranch(branches)}
   } catch (e) {
@@ -23,5 +24,6 @@ export const middleware: NextMiddleware = async (nextRequest, ev) => {
   ${renderBodyFooter(hooks)}
 }
 `.trim();
+};
 
 export default renderBody;
@@ -1,7 +1,10 @@
-const footer = `
+import { EjectedRouter } from "../types";
+
+const renderFooter = ({ matcher }: EjectedRouter) =>
+  `
 export const config = {
-  matcher: "/((?!_next(?:$|/)|api(?:$|/))[^/]+\\/?|$)*"
+  matcher: ${JSON.stringify(matcher)}
 }
 `.trim();
 
-export default footer;
+export default renderFooter;
@@ -4,12 +4,18 @@ import getSegmentHash from "../util/get-hash";
 const importTypes: (keyof Imports)[] = [
   "middleware",
   "forward.dynamic",
+  "forward.host",
+  "forward.locale",
+  "forward.experiment",
   "forward.static",
   "rewrite",
   "redirect",
+  "middleware.not-found",
+  "middleware.error",
+  "middleware.after",
 ];
 
-const renderDynamicImports = (imports: Imports) =>
+const renderDynamicImports = (imports: Imports, rootDir: string) =>
   `
 ${(Object.keys(imports) as (keyof Imports)[])
   .sort((a, b) => importTypes.indexOf(a) - importTypes.indexOf(b))
@@ -17,9 +23,9 @@ ${(Object.keys(imports) as (keyof Imports)[])
     Array.from(imports[type])
       .map((location) =>
         `
-    const ${type.replace(".", "_")}_${getSegmentHash(
+    const ${type.replace(/[.-]/g, "_")}_${getSegmentHash(
           location
-        )} = import("./${location}/${type}");
+        )} = import("${rootDir}/${location}/${type}");
   `.trim()
       )
       .join("\n")
@@ -1,6 +1,6 @@
 import { RouterHooksConfig } from "../types";
 
-const renderHooksImport = (hooks: RouterHooksConfig) => {
+const renderHooksImport = (hooks: RouterHooksConfig, hooksFile: string) => {
   const usedHooks = Object.entries(hooks)
     .filter(([, value]) => value)
     .map(([key]) => key);
@@ -14,7 +14,7 @@ const renderHooksImport = (hooks: RouterHooksConfig) => {
     `.trim()
       )
       .join(",\n")}
-  } from "./middleware.hooks";
+  } from "${hooksFile}";
   `.trim();
   else return "";
 };
@@ -3,16 +3,28 @@ import renderDynamicImports from "./dynamic";
 import renderHooksImport from "./hooks";
 import staticImports from "./static";
 
-const renderHead = ({ hooks, imports, publicFiles }: EjectedRouter) =>
+const renderHead = ({
+  hooks,
+  hooksFile,
+  imports,
+  publicFiles,
+  rootDir,
+  methods,
+  protectedHeaders,
+}: EjectedRouter) =>
   `
 ${staticImports}
-${renderHooksImport(hooks)}
+${renderHooksImport(hooks, hooksFile)}
 
-${renderDynamicImports(imports)}
+${renderDynamicImports(imports, rootDir)}
 
 const publicFiles = new Set<string>([${Array.from(new Set(publicFiles))
     .map((publicFile) => `"${publicFile}"`)
     .join(", ")}]);
+
+const handledMethods: readonly string[] | "*" = ${JSON.stringify(methods)};
+
+const protectedHeaders: readonly string[] = ${JSON.stringify(protectedHeaders)};
 `.trim();
 
 export default renderHead;
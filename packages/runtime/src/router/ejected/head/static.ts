@@ -1,12 +1,24 @@
 const staticImports = `/* eslint-disable */
 import type {
+  ExperimentExposure,
   MiddleWareHandlerResult,
   NextMiddlewareInternals,
   NextMiddlewareRequest,
   NextMiddlewareResponse,
   Params,
   ParamType,
-  RuntimeNext
+  RuntimeNext,
+  SegmentLocals
+} from "@cxnpl/next-app-middleware/runtime";
+import {
+  applyRequestHeaders,
+  assignExperiment,
+  createRequestBody,
+  createRequestHeaders,
+  createTextResponse,
+  getMiddlewareHandler,
+  negotiateLocale,
+  resolveHostForward
 } from "@cxnpl/next-app-middleware/runtime";
 import { ResponseCookies } from "next/dist/server/web/spec-extension/cookies";
 import { NextMiddleware, NextResponse } from "next/server";`;
@@ -1,16 +1,24 @@
 import renderBody from "./body";
-import footer from "./footer";
+import renderFooter from "./footer";
 import renderHead from "./head";
 import {
   Branch,
   BranchTypes,
+  DynamicForwardSource,
   DynamicSegment,
+  EjectedAfter,
   EjectedDynamicForward,
+  EjectedErrorBoundary,
+  EjectedLocalePrefix,
   EjectedMiddleware,
   EjectedNextResponse,
+  EjectedNotFoundForward,
+  EjectedNotFoundResponse,
+  EjectedNotFoundSegment,
   EjectedRedirect,
   EjectedRewrite,
   EjectedRouter,
+  EjectedTrace,
   Imports,
   PathSegmentSwitch,
   RouterHooksConfig,
@@ -19,13 +27,21 @@ import {
 export { BranchTypes };
 export type {
   Branch,
+  DynamicForwardSource,
   DynamicSegment,
+  EjectedAfter,
   EjectedDynamicForward,
+  EjectedErrorBoundary,
+  EjectedLocalePrefix,
   EjectedMiddleware,
   EjectedNextResponse,
+  EjectedNotFoundForward,
+  EjectedNotFoundResponse,
+  EjectedNotFoundSegment,
   EjectedRedirect,
   EjectedRewrite,
   EjectedRouter,
+  EjectedTrace,
   Imports,
   PathSegmentSwitch,
   RouterHooksConfig,
@@ -37,5 +53,5 @@ ${renderHead(router)}
 
 ${renderBody(router)}
 
-${footer}
+${renderFooter(router)}
 `;
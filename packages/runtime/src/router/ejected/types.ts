@@ -11,6 +11,9 @@ export enum BranchTypes {
   REDIRECT,
   CATCH_ALL,
   SKIP,
+  TRACE,
+  ERROR_BOUNDARY,
+  AFTER,
 }
 
 export type EjectedSkip = {
@@ -22,13 +25,20 @@ export type EjectedMiddleware = {
   internalPath: string;
   location: string;
   then: Branch;
+  notFound: Branch;
 };
 
+/**
+ * The file convention that resolves a dynamic forward, `forward.${source}`
+ */
+export type DynamicForwardSource = "dynamic" | "host" | "locale" | "experiment";
+
 export type EjectedDynamicForward = {
   type: BranchTypes.DYNAMIC_FORWARD;
   internalPath: string;
   location: string;
   name: string;
+  source: DynamicForwardSource;
   then?: Branch;
   forward?: Branch;
 };
@@ -59,8 +69,33 @@ export type PathSegmentSwitch = {
   index: number;
 };
 
+/**
+ * A forward that has to be applied before a not-found segment can be used
+ */
+export type EjectedNotFoundForward = {
+  type: DynamicForwardSource | "static";
+  name: string;
+  location: string;
+  internalPath: string;
+};
+
+/**
+ * A segment with a `middleware.not-found` handler or a `not-found` page
+ */
+export type EjectedNotFoundSegment = {
+  location: string;
+  internalPath: string;
+  middleware: boolean;
+  page: boolean;
+  forwards: EjectedNotFoundForward[];
+};
+
 export type EjectedNotFoundResponse = {
   type: BranchTypes.NOT_FOUND;
+  /**
+   * Segments that can handle the request, nearest first
+   */
+  segments: EjectedNotFoundSegment[];
 };
 
 export type EjectedNextResponse = {
@@ -97,6 +132,34 @@ export type CatchAllSegment = {
   then: Branch;
 };
 
+export type EjectedTrace = {
+  type: BranchTypes.TRACE;
+  label: string;
+  then: Branch;
+};
+
+/**
+ * Passes errors thrown by the handlers of `then` to the `middleware.error`
+ * handler of the segment at `location`
+ */
+export type EjectedErrorBoundary = {
+  type: BranchTypes.ERROR_BOUNDARY;
+  location: string;
+  internalPath: string;
+  then: Branch;
+};
+
+/**
+ * Registers the `middleware.after` handler of the segment at `location`
+ * before continuing with `then`
+ */
+export type EjectedAfter = {
+  type: BranchTypes.AFTER;
+  location: string;
+  internalPath: string;
+  then: Branch;
+};
+
 export type Branch =
   | EjectedSkip
   | EjectedMiddleware
@@ -109,7 +172,10 @@ export type Branch =
   | EjectedRewrite
   | EjectedExternal
   | DynamicSegment
-  | CatchAllSegment;
+  | CatchAllSegment
+  | EjectedTrace
+  | EjectedErrorBoundary
+  | EjectedAfter;
 
 export type RouterHooksConfig = {
   notFound: boolean;
@@ -120,19 +186,71 @@ export type RouterHooksConfig = {
   response: boolean;
   error: boolean;
   external: boolean;
+  experiment: boolean;
 };
 
 export type Imports = {
   middleware: Set<string>;
   rewrite: Set<string>;
   "forward.dynamic": Set<string>;
+  "forward.host": Set<string>;
+  "forward.locale": Set<string>;
+  "forward.experiment": Set<string>;
   "forward.static": Set<string>;
   redirect: Set<string>;
+  "middleware.not-found": Set<string>;
+  "middleware.error": Set<string>;
+  "middleware.after": Set<string>;
+};
+
+/**
+ * A `forward.locale` export whose locales are removed from the path before
+ * matching when they directly follow `externalPath`
+ */
+export type EjectedLocalePrefix = {
+  location: string;
+  name: string;
+  externalPath: string;
 };
 
 export type EjectedRouter = {
   publicFiles: string[];
   hooks: RouterHooksConfig;
+  /**
+   * Import path of the hooks file relative to the generated middleware
+   */
+  hooksFile: string;
   branches: Branch;
   imports: Imports;
+  /**
+   * The project root relative to the generated middleware, segment locations
+   * are relative to it
+   */
+  rootDir: string;
+  /**
+   * Path prefixes that bypass the middleware, e.g. `/api`
+   */
+  ignoredPrefixes: string[];
+  /**
+   * `config.matcher` of the generated middleware
+   */
+  matcher: string[];
+  /**
+   * Methods handled by default exports without a `methods` export
+   */
+  methods: readonly string[] | "*";
+  /**
+   * Request headers only middleware can set, they are removed from incoming
+   * requests. Entries ending in `*` match a prefix.
+   */
+  protectedHeaders: string[];
+  /**
+   * Locale forwards in the order their prefixes are removed, outermost first
+   */
+  localePrefixes: EjectedLocalePrefix[];
+  /**
+   * Path unmatched requests are rewritten to, relative to the nearest segment
+   * with a `not-found` page
+   */
+  notFound: string;
 };
@@ -0,0 +1,20 @@
+import type { RequestBody } from "./types";
+
+/**
+ * @returns A `RequestBody` that reads a clone of `request` once it is first
+ * accessed, so the original body can still be forwarded to next
+ */
+export const createRequestBody = (request: Request): RequestBody => {
+  let buffer: Promise<ArrayBuffer> | undefined;
+  const arrayBuffer = () => buffer || (buffer = request.clone().arrayBuffer());
+  const text = async () => new TextDecoder().decode(await arrayBuffer());
+  return {
+    arrayBuffer,
+    text,
+    json: async () => JSON.parse(await text()),
+    formData: async () =>
+      new Response(await arrayBuffer(), {
+        headers: { "content-type": request.headers.get("content-type") || "" },
+      }).formData(),
+  };
+};
@@ -0,0 +1,98 @@
+import type {
+  ExperimentExposure,
+  ExperimentForwarder,
+  NextMiddlewareRequest,
+  NextMiddlewareResponse,
+} from "./types";
+
+const maxAge = 60 * 60 * 24 * 365;
+
+/**
+ * @returns A number in `[0, 1)` derived from `value` with FNV-1a, the same
+ * value always results in the same number
+ */
+const toBucket = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * @returns The variant whose share of the total weight contains `bucket`
+ */
+const pickVariant = (
+  variants: ExperimentForwarder["variants"],
+  bucket: number
+) => {
+  const weighted = Object.entries(variants).filter(([, weight]) => weight > 0);
+  const total = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+  let threshold = bucket * total;
+  for (const [variant, weight] of weighted) {
+    if (threshold < weight) return variant;
+    threshold -= weight;
+  }
+  return undefined;
+};
+
+/**
+ * Assigns a request to a variant of an experiment. A valid variant in the
+ * query param takes precedence over the persisted assignment for the current
+ * request only, new visitors are assigned by their visitor id so the same
+ * visitor always ends up in the same variant. New assignments and the visitor
+ * id are persisted to cookies.
+ * @param name Name of the forwarded param
+ * @param location Location of the segment that declares the experiment
+ * @returns The exposure of the request, `undefined` if no variant has a weight
+ */
+export const assignExperiment = (
+  {
+    variants,
+    cookie,
+    visitorCookie = "NEXT_VISITOR_ID",
+    query,
+  }: ExperimentForwarder,
+  req: NextMiddlewareRequest,
+  res: NextMiddlewareResponse,
+  name: string,
+  location: string
+): ExperimentExposure | undefined => {
+  const assignmentCookie = cookie || `NEXT_EXPERIMENT_${name}`;
+  const queryParam = query === undefined ? name : query;
+  const isVariant = (value: string | null | undefined): value is string =>
+    !!value && Object.prototype.hasOwnProperty.call(variants, value);
+  const stored = req.cookies.get(assignmentCookie)?.value;
+  const override = queryParam ? req.search.get(queryParam) : null;
+  let exposure: ExperimentExposure | undefined;
+  if (isVariant(override)) {
+    exposure = { name, location, variant: override, source: "query" };
+  } else if (isVariant(stored)) {
+    exposure = { name, location, variant: stored, source: "cookie" };
+  } else {
+    let visitorId = req.cookies.get(visitorCookie)?.value;
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      res.cookies.set(visitorCookie, visitorId, {
+        path: "/",
+        sameSite: "lax",
+        maxAge,
+      });
+    }
+    const variant = pickVariant(
+      variants,
+      toBucket(`${visitorId}:${location}:${name}`)
+    );
+    if (variant !== undefined)
+      exposure = { name, location, variant, source: "assigned" };
+  }
+  res.headers.append("vary", "Cookie");
+  if (exposure?.source === "assigned")
+    res.cookies.set(assignmentCookie, exposure.variant, {
+      path: "/",
+      sameSite: "lax",
+      maxAge,
+    });
+  return exposure;
+};
@@ -0,0 +1,64 @@
+/**
+ * @returns true if `name` is one of `protectedHeaders`, entries ending in `*`
+ * match every header starting with them
+ */
+const isProtected = (name: string, protectedHeaders: readonly string[]) =>
+  protectedHeaders.some((header) =>
+    header.endsWith("*")
+      ? name.startsWith(header.slice(0, -1))
+      : name === header
+  );
+
+/**
+ * @returns A copy of the incoming request headers without any of the
+ * protected headers, so only middleware can set them for pages and route
+ * handlers
+ */
+export const createRequestHeaders = (
+  headers: Headers,
+  protectedHeaders: readonly string[]
+) => {
+  const requestHeaders = new Headers(headers);
+  Array.from(requestHeaders.keys())
+    .filter((name) => isProtected(name, protectedHeaders))
+    .forEach((name) => requestHeaders.delete(name));
+  return requestHeaders;
+};
+
+/**
+ * Passes `requestHeaders` on to pages and route handlers if `response` is a
+ * next or rewrite response that does not set request headers itself. If it
+ * does, protected headers are only kept if they were set on `requestHeaders`
+ */
+export const applyRequestHeaders = (
+  response: Response,
+  requestHeaders: Headers,
+  protectedHeaders: readonly string[]
+) => {
+  const { headers } = response;
+  if (!headers.has("x-middleware-next") && !headers.has("x-middleware-rewrite"))
+    return;
+  const overrides = headers.get("x-middleware-override-headers");
+  if (overrides === null) {
+    requestHeaders.forEach((value, name) =>
+      headers.set(`x-middleware-request-${name}`, value)
+    );
+    headers.set(
+      "x-middleware-override-headers",
+      Array.from(requestHeaders.keys()).join(",")
+    );
+    return;
+  }
+  const names = overrides.split(",").filter(Boolean);
+  const removed = names.filter(
+    (name) =>
+      isProtected(name, protectedHeaders) &&
+      headers.get(`x-middleware-request-${name}`) !== requestHeaders.get(name)
+  );
+  if (!removed.length) return;
+  removed.forEach((name) => headers.delete(`x-middleware-request-${name}`));
+  headers.set(
+    "x-middleware-override-headers",
+    names.filter((name) => !removed.includes(name)).join(",")
+  );
+};
@@ -0,0 +1,31 @@
+import type { HostForwarder } from "./types";
+
+/**
+ * @returns The subdomain label `hostname` matches `pattern` with, an empty
+ * string for exact matches and `undefined` if it does not match
+ */
+const matchHost = (pattern: string, hostname: string) => {
+  if (!pattern.startsWith("*.")) return pattern === hostname ? "" : undefined;
+  const suffix = pattern.slice(1);
+  if (!hostname.endsWith(suffix)) return undefined;
+  const label = hostname.slice(0, -suffix.length);
+  return label && !label.includes(".") ? label : undefined;
+};
+
+/**
+ * @param host The `Host` header of the request
+ * @returns The param value of the first pattern of `forwarder` that matches
+ * the hostname, `undefined` if none matches
+ */
+export const resolveHostForward = (
+  forwarder: HostForwarder,
+  host: string | null
+) => {
+  if (!host) return undefined;
+  const hostname = host.replace(/:\d+$/, "").toLowerCase();
+  for (const [pattern, value] of Object.entries(forwarder)) {
+    const label = matchHost(pattern.toLowerCase(), hostname);
+    if (label !== undefined) return value.replace("*", label);
+  }
+  return undefined;
+};
@@ -0,0 +1,69 @@
+import type {
+  CatchAllKeys,
+  OptionalCatchAllKeys,
+  ParamKeys,
+  Params,
+} from "./types";
+
+type HrefParams<Path> = Omit<Params<Path>, OptionalCatchAllKeys<Path>> &
+  Partial<Record<OptionalCatchAllKeys<Path>, string[]>>;
+
+type RequiredKeys<Path> =
+  | ParamKeys<Path>
+  | Exclude<CatchAllKeys<Path>, OptionalCatchAllKeys<Path>>;
+
+type HrefArgs<Path> = [RequiredKeys<Path>] extends [never]
+  ? [params?: HrefParams<Path>]
+  : [params: HrefParams<Path>];
+
+/**
+ * Creates a `href` function that turns an internal route and its params into
+ * the url that reaches it from the browser.
+ * @param routes A mapping of internal routes (e.g. `/[theme]/test`) to their
+ * external path (e.g. `/test/`), generated as `middleware.routes.{ts,js}`
+ */
+export const createHref =
+  <Routes extends Record<string, string>>(routes: Routes) =>
+  <Route extends keyof Routes & string>(
+    route: Route,
+    ...[params]: HrefArgs<Routes[Route]>
+  ) => {
+    if (!Object.prototype.hasOwnProperty.call(routes, route))
+      throw new Error(`HrefError: ${route} can not be reached externally`);
+    const values = (params || {}) as Record<string, string | string[]>;
+    const path = routes[route]
+      .split("/")
+      .map((segment) => {
+        if (segment.startsWith(":")) {
+          const value = values[segment.slice(1)];
+          if (typeof value !== "string")
+            throw new Error(
+              `HrefError: expected param ${segment.slice(1)} for ${route}`
+            );
+          return encodeURIComponent(value);
+        }
+        if (segment.startsWith("*?")) {
+          const value = values[segment.slice(2)] || [];
+          if (!(value instanceof Array))
+            throw new Error(
+              `HrefError: expected param ${segment.slice(2)} for ${route}`
+            );
+          return value.map(encodeURIComponent).join("/");
+        }
+        if (segment.startsWith("*")) {
+          const value = values[segment.slice(1)];
+          if (!(value instanceof Array) || !value.length)
+            throw new Error(
+              `HrefError: expected param ${segment.slice(1)} for ${route}`
+            );
+          return value.map(encodeURIComponent).join("/");
+        }
+        return segment;
+      })
+      .filter(
+        (segment, index, segments) =>
+          segment || index === 0 || index === segments.length - 1
+      )
+      .join("/");
+    return path.length > 1 ? path.replace(/\/$/, "") : path;
+  };
@@ -0,0 +1,76 @@
+import type {
+  LocaleForwarder,
+  NextMiddlewareRequest,
+  NextMiddlewareResponse,
+} from "./types";
+
+/**
+ * @returns The language ranges of an `Accept-Language` header, highest
+ * quality first. Ranges with a quality of 0 are left out.
+ */
+const parseAcceptLanguage = (header: string) =>
+  header
+    .split(",")
+    .map((range, index) => {
+      const [tag, ...parameters] = range.trim().split(";");
+      const quality = parameters
+        .map((parameter) => /^\s*q=([\d.]+)\s*$/.exec(parameter))
+        .find(Boolean);
+      return {
+        tag: tag.trim().toLowerCase(),
+        quality: quality ? Number(quality[1]) : 1,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag);
+
+/**
+ * @returns The locale that matches `tag` exactly or by its language, e.g.
+ * `en` for `en-US` and `en-US` for `en`
+ */
+const matchLocale = (tag: string, locales: readonly string[]) => {
+  const normalized = locales.map((locale) => locale.toLowerCase());
+  const exact = normalized.indexOf(tag);
+  if (exact !== -1) return locales[exact];
+  const [language] = tag.split("-");
+  const partial = normalized.findIndex(
+    (locale) => locale === language || locale.split("-")[0] === language
+  );
+  return partial !== -1 ? locales[partial] : undefined;
+};
+
+/**
+ * Negotiates the locale of a request. A locale in the path takes precedence
+ * over the cookie, which takes precedence over `Accept-Language`. The result
+ * is persisted to the cookie and negotiated responses vary by the headers they
+ * were negotiated from.
+ * @param explicit The locale prefix of the requested path
+ * @returns The negotiated locale, `undefined` if none of the locales match
+ * and there is no default locale
+ */
+export const negotiateLocale = (
+  { locales, defaultLocale, cookie = "NEXT_LOCALE" }: LocaleForwarder,
+  req: NextMiddlewareRequest,
+  res: NextMiddlewareResponse,
+  explicit?: string
+) => {
+  const stored = cookie ? req.cookies.get(cookie)?.value : undefined;
+  let locale = explicit;
+  if (locale === undefined) {
+    res.headers.append(
+      "vary",
+      cookie ? "Accept-Language, Cookie" : "Accept-Language"
+    );
+    locale =
+      (stored !== undefined && locales.includes(stored) ? stored : undefined) ||
+      parseAcceptLanguage(req.headers.get("accept-language") || "")
+        .map((tag) => matchLocale(tag, locales))
+        .find(Boolean) ||
+      defaultLocale;
+  }
+  if (cookie && locale !== undefined && locale !== stored)
+    res.cookies.set(cookie, locale, { path: "/", sameSite: "lax" });
+  return locale;
+};
@@ -0,0 +1,28 @@
+import type {
+  DefaultLocals,
+  DefaultParam,
+  MiddlewareHandler,
+  MiddlewareModule,
+} from "./types";
+
+/**
+ * @returns The handler of a `middleware.{ts,js}` module for `method`, the
+ * method specific export or the default export if it handles `method`
+ * @param handledMethods Methods handled by the default export if the module
+ * does not export `methods`
+ */
+export const getMiddlewareHandler = <
+  Param extends DefaultParam,
+  Locals extends object = DefaultLocals
+>(
+  module: object,
+  method: string,
+  handledMethods: readonly string[] | "*" = "*"
+) => {
+  const handlers = module as MiddlewareModule<Param, Locals>;
+  const handler = handlers[method as keyof typeof handlers];
+  if (typeof handler === "function")
+    return handler as MiddlewareHandler<Param, Locals>;
+  const methods: readonly string[] | "*" = handlers.methods || handledMethods;
+  if (methods === "*" || methods.includes(method)) return handlers.default;
+};
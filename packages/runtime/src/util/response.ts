@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import type { MiddlewareResponseInit } from "./types";
+
+/**
+ * @returns A response with `body` that defaults to `contentType` unless the
+ * headers set a content type
+ */
+export const createTextResponse = (
+  body: string,
+  contentType: string,
+  { status, headers }: MiddlewareResponseInit
+) => {
+  const responseHeaders = new Headers(headers);
+  if (!responseHeaders.has("content-type"))
+    responseHeaders.set("content-type", contentType);
+  return new NextResponse(body, { status, headers: responseHeaders });
+};
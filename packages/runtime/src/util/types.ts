@@ -14,25 +14,80 @@ export type ParamKeys<Path> = Path extends `${infer Component}/${infer Rest}`
   ? ParamKey<Component> | ParamKeys<Rest>
   : ParamKey<Path>;
 
-type CatchAllKey<Component> = Component extends `*${infer Name}` ? Name : never;
+type CatchAllKey<Component> = Component extends `*?${infer Name}`
+  ? Name
+  : Component extends `*${infer Name}`
+  ? Name
+  : never;
 
 export type CatchAllKeys<Path> = Path extends `${infer Component}/${infer Rest}`
   ? CatchAllKey<Component> | CatchAllKeys<Rest>
   : CatchAllKey<Path>;
 
+type OptionalCatchAllKey<Component> = Component extends `*?${infer Name}`
+  ? Name
+  : never;
+
+export type OptionalCatchAllKeys<Path> =
+  Path extends `${infer Component}/${infer Rest}`
+    ? OptionalCatchAllKey<Component> | OptionalCatchAllKeys<Rest>
+    : OptionalCatchAllKey<Path>;
+
 export type Params<Path> = Record<ParamKeys<Path>, string> &
   Record<CatchAllKeys<Path>, string[]>;
 
 export type ParamType = Record<string, string | string[]>;
 
-type DefaultParam = Record<string, string | string[] | undefined>;
+export type DefaultParam = Record<string, string | string[] | undefined>;
+
+/**
+ * Values shared by all handlers of a request, untyped unless the handler is
+ * typed by its segment
+ */
+export type DefaultLocals = Record<string, unknown>;
+
+export type HttpMethod =
+  | "GET"
+  | "HEAD"
+  | "POST"
+  | "PUT"
+  | "DELETE"
+  | "PATCH"
+  | "OPTIONS";
+
+/**
+ * Reads the body of a clone of the request, the body is only read once no
+ * matter how many handlers access it
+ */
+export type RequestBody = {
+  arrayBuffer(): Promise<ArrayBuffer>;
+  text(): Promise<string>;
+  json<T = unknown>(): Promise<T>;
+  formData(): Promise<FormData>;
+};
 
-export type NextMiddlewareRequest<Param extends DefaultParam = DefaultParam> = {
+export type NextMiddlewareRequest<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = {
+  readonly method: string;
+  readonly body: RequestBody;
   readonly url: NextURL;
   readonly headers: Headers;
+  /**
+   * Headers passed to pages and route handlers if the request is not
+   * redirected, changes are visible to `headers()` in server components.
+   * Starts as a copy of `headers` without the protected headers.
+   */
+  readonly requestHeaders: Headers;
   readonly params: Param;
   readonly search: URLSearchParams;
   readonly cookies: RequestCookies;
+  /**
+   * Written by middleware, readable by all handlers and hooks that run later
+   * for the same request
+   */
+  readonly locals: Locals;
   readonly waitUntil: (promise: Promise<unknown>) => void;
 };
 
@@ -43,9 +98,11 @@ export type NextMiddlewareResponse = {
 
 export type NextMiddlewareInternals = {
   responseHeaders?: Headers;
+  requestHeaders?: Headers;
   cookies?: ResponseCookies;
   nextUrl?: NextURL;
   searchParams?: URLSearchParams;
+  body?: RequestBody;
 };
 
 type OptionalPromise<T> = Promise<T> | T;
@@ -70,44 +127,276 @@ export type ErrorHook = GenericHook<[error: Error]>;
 
 export type ResponseHook = (res: NextResponse) => OptionalPromise<void>;
 
+/**
+ * The variant of an experiment forward a request was routed to
+ */
+export type ExperimentExposure = {
+  /**
+   * Name of the forwarded param
+   */
+  name: string;
+  /**
+   * Location of the segment that declares the experiment
+   */
+  location: string;
+  variant: string;
+  /**
+   * `cookie` for returning visitors, `assigned` for new assignments and
+   * `query` for overrides
+   */
+  source: "cookie" | "assigned" | "query";
+};
+
+export type ExperimentHook = (
+  req: NextMiddlewareRequest,
+  res: NextMiddlewareResponse,
+  exposure: ExperimentExposure
+) => OptionalPromise<void>;
+
+/**
+ * Status and headers of a response created from a middleware result
+ */
+export type MiddlewareResponseInit = {
+  status?: number;
+  headers?: HeadersInit;
+};
+
+/**
+ * Returning a `Response` or one of the response objects ends the request,
+ * `{ notFound: true }` responds with the not-found resolution of the segment,
+ * `{ next: true }` skips all remaining middleware and continues to the page
+ * and `void` continues with the next handler.
+ */
 export type MiddleWareHandlerResult =
+  | Response
   | { redirect: string | URL | NextURL; status?: number }
   | { rewrite: string | URL | NextURL }
-  | { json: unknown }
+  | ({ json: unknown } & MiddlewareResponseInit)
+  | ({ text: string } & MiddlewareResponseInit)
+  | ({ html: string } & MiddlewareResponseInit)
+  | { notFound: true }
+  | { next: true }
   | void;
 
-type BaseHandler<Param extends DefaultParam, R> = (
-  req: NextMiddlewareRequest<Param>,
+type BaseHandler<Param extends DefaultParam, R, Locals extends object> = (
+  req: NextMiddlewareRequest<Param, Locals>,
   res: NextMiddlewareResponse
 ) => OptionalPromise<R>;
 
-export type MiddlewareHandler<Param extends DefaultParam = DefaultParam> =
-  BaseHandler<Param, MiddleWareHandlerResult>;
+export type MiddlewareHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<Param, MiddleWareHandlerResult, Locals>;
+
+/**
+ * The exports of a `middleware.{ts,js}` file. Method specific handlers take
+ * precedence over the default export, which only handles `methods`.
+ */
+export type MiddlewareModule<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = Partial<Record<HttpMethod, MiddlewareHandler<Param, Locals>>> & {
+  default?: MiddlewareHandler<Param, Locals>;
+  methods?: readonly HttpMethod[] | "*";
+};
+
+export type DynamicForwarder<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<Param, string | void, Locals>;
+
+export type StaticForwarder<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<Param, boolean | void, Locals>;
+
+/**
+ * A named export of `forward.host.{ts,js}`, maps host patterns to the value
+ * of the forwarded param. A leading `*.` matches a single subdomain label
+ * which replaces the `*` in the value. Patterns are tried in declaration
+ * order, the request is not forwarded if none matches.
+ */
+export type HostForwarder = Readonly<Record<string, string>>;
+
+/**
+ * A named export of `forward.locale.{ts,js}`, negotiates the value of the
+ * forwarded param from `locales`
+ */
+export type LocaleForwarder = {
+  readonly locales: readonly string[];
+  /**
+   * Used if neither the path, the cookie nor `Accept-Language` match one of
+   * the locales, the request is not forwarded if omitted
+   */
+  readonly defaultLocale?: string;
+  /**
+   * Name of the cookie the locale is read from and persisted to,
+   * `NEXT_LOCALE` by default, `false` disables the cookie
+   */
+  readonly cookie?: string | false;
+};
+
+/**
+ * A named export of `forward.experiment.{ts,js}`, splits visitors between
+ * the variants of the forwarded param
+ */
+export type ExperimentForwarder = {
+  /**
+   * Maps every variant to its weight, variants with a weight of 0 are only
+   * reachable through the query param
+   */
+  readonly variants: Readonly<Record<string, number>>;
+  /**
+   * Name of the cookie the assignment is persisted to,
+   * `NEXT_EXPERIMENT_${name}` by default
+   */
+  readonly cookie?: string;
+  /**
+   * Name of the cookie that holds the stable id of the visitor,
+   * `NEXT_VISITOR_ID` by default
+   */
+  readonly visitorCookie?: string;
+  /**
+   * Query param that overrides the assignment for a single request, the name
+   * of the forwarded param by default, `false` disables overrides
+   */
+  readonly query?: string | false;
+};
+
+export type RewriteHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<Param, string | URL | NextURL | void, Locals>;
+
+export type RedirectHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<
+  Param,
+  | string
+  | URL
+  | NextURL
+  | {
+      destination: string | URL | NextURL;
+      status?: number;
+    }
+  | void,
+  Locals
+>;
 
-export type DynamicForwarder<Param extends DefaultParam = DefaultParam> =
-  BaseHandler<Param, string | void>;
+/**
+ * Default export of `middleware.not-found.{ts,js}`, handles requests that do
+ * not match any page below its segment. Returning `void` passes the request
+ * to the next not-found segment above.
+ */
+export type NotFoundHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = BaseHandler<Param, NextResponse | void, Locals>;
 
-export type StaticForwarder<Param extends DefaultParam = DefaultParam> =
-  BaseHandler<Param, boolean | void>;
+/**
+ * The handler that threw the error passed to a `middleware.error` handler
+ */
+export type ErrorSource = {
+  location: string;
+  params: ParamType;
+};
 
-export type RewriteHandler<Param extends DefaultParam = DefaultParam> =
-  BaseHandler<Param, string | URL | NextURL | void>;
+/**
+ * Default export of `middleware.error.{ts,js}`, handles errors thrown by the
+ * handlers of its segment and all segments below. Returning `void` passes the
+ * error to the next `middleware.error` handler above.
+ */
+export type ErrorHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = (
+  req: NextMiddlewareRequest<Param, Locals>,
+  res: NextMiddlewareResponse,
+  error: Error,
+  source: ErrorSource
+) => OptionalPromise<NextResponse | void>;
 
-export type RedirectHandler<Param extends DefaultParam = DefaultParam> =
-  BaseHandler<
-    Param,
-    | string
-    | URL
-    | NextURL
-    | {
-        destination: string | URL | NextURL;
-        status?: number;
-      }
-    | void
-  >;
+/**
+ * Default export of `middleware.after.{ts,js}`, runs for every request that
+ * passed its segment once the response is known. Returning a `NextResponse`
+ * replaces the response, the handlers of deeper segments run first.
+ */
+export type AfterHandler<
+  Param extends DefaultParam = DefaultParam,
+  Locals extends object = DefaultLocals
+> = (
+  req: NextMiddlewareRequest<Param, Locals>,
+  res: NextMiddlewareResponse,
+  response: NextResponse
+) => OptionalPromise<NextResponse | void>;
 
 export type RuntimeNext =
   | ((params: ParamType) => string)
   | true
   | string
   | undefined;
+
+/**
+ * Keeps the interfaces filled by `middleware-env.d.ts` from being empty before
+ * codegen ran, it is never a location
+ */
+declare const generated: unique symbol;
+
+/**
+ * Maps the location of every segment in the app directory to its internal
+ * path. Filled by the `middleware-env.d.ts` file generated by codegen.
+ */
+export interface SegmentPaths {
+  [generated]?: never;
+}
+
+export type SegmentLocation = Extract<keyof SegmentPaths, string>;
+
+/**
+ * All params that are available to handlers in the segment at `Location`
+ */
+export type SegmentParams<Location extends SegmentLocation> = Params<
+  SegmentPaths[Location]
+>;
+
+/**
+ * Maps the location of segments to the locals that are available to their
+ * handlers. Filled by the `middleware-env.d.ts` file generated by codegen.
+ */
+export interface SegmentLocalsMap {
+  [generated]?: never;
+}
+
+/**
+ * The locals that are available to handlers in the segment at `Location`,
+ * untyped if no middleware above it exports a `Locals` type
+ */
+export type SegmentLocals<Location extends string> =
+  Location extends keyof SegmentLocalsMap
+    ? SegmentLocalsMap[Location]
+    : DefaultLocals;
+
+export type SegmentMiddleware<Location extends SegmentLocation> =
+  MiddlewareHandler<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentDynamicForwarder<Location extends SegmentLocation> =
+  DynamicForwarder<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentStaticForwarder<Location extends SegmentLocation> =
+  StaticForwarder<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentRewriteHandler<Location extends SegmentLocation> =
+  RewriteHandler<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentRedirectHandler<Location extends SegmentLocation> =
+  RedirectHandler<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentNotFoundHandler<Location extends SegmentLocation> =
+  NotFoundHandler<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentErrorHandler<Location extends SegmentLocation> =
+  ErrorHandler<SegmentParams<Location>, SegmentLocals<Location>>;
+
+export type SegmentAfterHandler<Location extends SegmentLocation> =
+  AfterHandler<SegmentParams<Location>, SegmentLocals<Location>>;